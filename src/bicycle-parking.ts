@@ -0,0 +1,106 @@
+/**
+ * Bicycle parking around a location from the BicycleParkingv2 dataset.
+ *
+ * DataMall searches by latitude, longitude and distance (in kilometres), so
+ * the radius is passed through rather than filtered locally. The location can
+ * be given as coordinates or as a bus stop code or landmark name, which is
+ * resolved to the best-matching bus stop.
+ */
+
+import { BusStop, resolveBusStops } from './bus-stops-cache.js';
+import { DATAMALL_BASE_URL, fetchAllPages } from './utils/datamall-client.js';
+import { normalizeLimit, normalizeRadius, toPoint } from './utils/filters.js';
+import { estimateWalk, haversineMeters, isValidCoordinate } from './utils/geo.js';
+
+export interface BicycleParking {
+  Description: string;
+  Latitude: number;
+  Longitude: number;
+  RackType: string;
+  RackCount: number;
+  ShelterIndicator: string;
+}
+
+export interface BicycleParkingSearch {
+  latitude?: number;
+  longitude?: number;
+  query?: string;
+  radius?: number;
+  limit?: number;
+}
+
+const DEFAULT_RADIUS_M = 500;
+const MAX_RADIUS_M = 2000;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/**
+ * The search centre: the coordinates if given, otherwise the first bus stop
+ * matching the query.
+ */
+async function resolveOrigin(search: BicycleParkingSearch, apiKey: string): Promise<{ latitude: number; longitude: number; busStop?: BusStop }> {
+  const point = toPoint(search.latitude, search.longitude);
+  if (point) {
+    return point;
+  }
+
+  const query = search.query?.trim();
+  if (!query) {
+    throw new Error('Provide latitude and longitude, or a bus stop code or landmark as query');
+  }
+
+  const [busStop] = (await resolveBusStops(query, apiKey, 1))
+    .filter((stop) => isValidCoordinate(stop.Latitude, stop.Longitude));
+  if (!busStop) {
+    throw new Error(`No bus stop found matching "${query}"`);
+  }
+
+  return { latitude: busStop.Latitude, longitude: busStop.Longitude, busStop };
+}
+
+/**
+ * Bicycle parking within the radius, nearest first.
+ */
+export async function getBicycleParking(search: BicycleParkingSearch, apiKey: string) {
+  const origin = await resolveOrigin(search, apiKey);
+  const radiusMeters = normalizeRadius(search.radius, DEFAULT_RADIUS_M, MAX_RADIUS_M);
+  const limit = normalizeLimit(search.limit, DEFAULT_LIMIT, MAX_LIMIT);
+
+  const records = await fetchAllPages<BicycleParking>(`${DATAMALL_BASE_URL}/BicycleParkingv2`, apiKey, {
+    params: { Lat: String(origin.latitude), Long: String(origin.longitude), Dist: String(radiusMeters / 1000) },
+  });
+
+  const spots = records
+    .filter((spot) => isValidCoordinate(spot.Latitude, spot.Longitude))
+    .map((spot) => {
+      const distanceMeters = haversineMeters(origin.latitude, origin.longitude, spot.Latitude, spot.Longitude);
+      return {
+        description: spot.Description,
+        rackType: spot.RackType,
+        rackCount: spot.RackCount,
+        sheltered: spot.ShelterIndicator === 'Y',
+        latitude: spot.Latitude,
+        longitude: spot.Longitude,
+        distanceMeters: Math.round(distanceMeters),
+        ...estimateWalk(distanceMeters),
+      };
+    })
+    .filter((spot) => spot.distanceMeters <= radiusMeters)
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+
+  return {
+    origin: origin.busStop
+      ? {
+        busStopCode: origin.busStop.BusStopCode,
+        description: origin.busStop.Description,
+        roadName: origin.busStop.RoadName,
+        latitude: origin.latitude,
+        longitude: origin.longitude,
+      }
+      : { latitude: origin.latitude, longitude: origin.longitude },
+    radiusMeters,
+    totalNearby: spots.length,
+    totalRacks: spots.reduce((sum, spot) => sum + (Number(spot.rackCount) || 0), 0),
+    parking: spots.slice(0, limit),
+  };
+}
@@ -0,0 +1,262 @@
+/**
+ * Live bus arrivals from the LTA DataMall v3/BusArrival endpoint.
+ *
+ * The raw response uses terse codes (`SEA`, `DD`, `WAB`...) and absolute
+ * timestamps. `getBusArrivals` decodes them into a structure a model can
+ * read directly: minutes away in Singapore time, plain-language load and bus
+ * type, wheelchair access, and stop names from the bus stop cache.
+ */
+
+import axios from 'axios';
+import { BusStop, peekBusStopDirectory } from './bus-stops-cache.js';
+import { mapWithConcurrency } from './utils/concurrency.js';
+import { DATAMALL_BASE_URL } from './utils/datamall-client.js';
+import { formatSingaporeTime, minutesUntil } from './utils/sg-time.js';
+
+export const BUS_ARRIVAL_URL = `${DATAMALL_BASE_URL}/v3/BusArrival`;
+
+// Parallel BusArrival requests made for one tool call
+export const MULTI_STOP_CONCURRENCY = 4;
+const MAX_MULTI_STOPS = 10;
+
+export interface NextBus {
+  OriginCode: string;
+  DestinationCode: string;
+  EstimatedArrival: string;
+  Monitored: number;
+  Latitude: string;
+  Longitude: string;
+  VisitNumber: string;
+  Load: string;
+  Feature: string;
+  Type: string;
+}
+
+export interface BusArrivalService {
+  ServiceNo: string;
+  Operator: string;
+  NextBus: NextBus;
+  NextBus2: NextBus;
+  NextBus3: NextBus;
+}
+
+export interface BusArrivalResponse {
+  BusStopCode: string;
+  Services: BusArrivalService[];
+}
+
+export interface DecodedBus {
+  estimatedArrival: string;
+  minutesAway: number;
+  arriving: boolean;
+  monitored: boolean;
+  load: string | null;
+  busType: string | null;
+  wheelchairAccessible: boolean;
+  visitNumber: number | null;
+  origin: { busStopCode: string; description: string | null };
+  destination: { busStopCode: string; description: string | null };
+  location: { latitude: number; longitude: number } | null;
+}
+
+export interface DecodedBusArrivals {
+  busStopCode: string;
+  busStopName: string | null;
+  roadName: string | null;
+  queriedAt: string;
+  services: Array<{ serviceNo: string; operator: string; nextBuses: DecodedBus[] }>;
+  note?: string;
+}
+
+export interface StopArrivalRequest {
+  busStopCode: string;
+  /** Only report these services at the stop. */
+  serviceNos?: string[];
+}
+
+export type StopArrivalResult =
+  | ({ ok: true } & DecodedBusArrivals)
+  | { ok: false; busStopCode: string; error: string };
+
+const LOAD_DESCRIPTIONS: Record<string, string> = {
+  SEA: 'Seats available',
+  SDA: 'Standing available',
+  LSD: 'Limited standing',
+};
+
+const BUS_TYPE_DESCRIPTIONS: Record<string, string> = {
+  SD: 'Single deck',
+  DD: 'Double deck',
+  BD: 'Bendy',
+};
+
+/**
+ * Fetch live arrivals at a bus stop, optionally for a single service.
+ */
+export async function fetchBusArrivals(
+  busStopCode: string,
+  apiKey: string,
+  serviceNo?: string,
+): Promise<BusArrivalResponse> {
+  const response = await axios.get(BUS_ARRIVAL_URL, {
+    params: {
+      BusStopCode: busStopCode,
+      ...(serviceNo && { ServiceNo: serviceNo })
+    },
+    headers: { 'AccountKey': apiKey, 'accept': 'application/json' },
+  });
+
+  return {
+    BusStopCode: response.data?.BusStopCode ?? busStopCode,
+    Services: response.data?.Services ?? [],
+  };
+}
+
+/**
+ * Estimated arrival times (epoch ms) of the next buses of a service, in
+ * order. Slots without an estimate are skipped.
+ */
+export function upcomingArrivalTimes(service: BusArrivalService): number[] {
+  return [service.NextBus, service.NextBus2, service.NextBus3]
+    .map((bus) => (bus?.EstimatedArrival ? Date.parse(bus.EstimatedArrival) : NaN))
+    .filter((time) => Number.isFinite(time));
+}
+
+function parseCoordinate(value: string): number {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Decode one NextBus slot, or return null if the slot is empty.
+ */
+export function decodeNextBus(
+  bus: NextBus | undefined,
+  stops: ReadonlyMap<string, BusStop>,
+  nowMs: number = Date.now(),
+): DecodedBus | null {
+  const arrivalMs = bus?.EstimatedArrival ? Date.parse(bus.EstimatedArrival) : NaN;
+  if (!bus || !Number.isFinite(arrivalMs)) {
+    return null;
+  }
+
+  const minutesAway = minutesUntil(arrivalMs, nowMs);
+  const latitude = parseCoordinate(bus.Latitude);
+  const longitude = parseCoordinate(bus.Longitude);
+  const visitNumber = Number.parseInt(bus.VisitNumber, 10);
+
+  return {
+    estimatedArrival: formatSingaporeTime(arrivalMs),
+    minutesAway,
+    arriving: minutesAway <= 1,
+    // Monitored = 1 means the estimate is based on the bus's live position
+    monitored: bus.Monitored === 1,
+    load: LOAD_DESCRIPTIONS[bus.Load] ?? (bus.Load || null),
+    busType: BUS_TYPE_DESCRIPTIONS[bus.Type] ?? (bus.Type || null),
+    wheelchairAccessible: bus.Feature === 'WAB',
+    visitNumber: Number.isFinite(visitNumber) ? visitNumber : null,
+    origin: {
+      busStopCode: bus.OriginCode,
+      description: stops.get(bus.OriginCode)?.Description ?? null,
+    },
+    destination: {
+      busStopCode: bus.DestinationCode,
+      description: stops.get(bus.DestinationCode)?.Description ?? null,
+    },
+    location: latitude !== 0 && longitude !== 0 ? { latitude, longitude } : null,
+  };
+}
+
+/**
+ * Decode a raw BusArrival response. Stop names come from `stops`, which may
+ * be empty if the bus stop cache could not be loaded.
+ */
+export function decodeBusArrivals(
+  response: BusArrivalResponse,
+  stops: ReadonlyMap<string, BusStop>,
+  nowMs: number = Date.now(),
+): DecodedBusArrivals {
+  const stop = stops.get(response.BusStopCode);
+  const services = response.Services.map((service) => ({
+    serviceNo: service.ServiceNo,
+    operator: service.Operator,
+    nextBuses: [service.NextBus, service.NextBus2, service.NextBus3]
+      .map((bus) => decodeNextBus(bus, stops, nowMs))
+      .filter((bus): bus is DecodedBus => bus !== null),
+  }));
+
+  return {
+    busStopCode: response.BusStopCode,
+    busStopName: stop?.Description ?? null,
+    roadName: stop?.RoadName ?? null,
+    queriedAt: formatSingaporeTime(nowMs),
+    services,
+    ...(services.length === 0 && {
+      note: 'No buses are currently reported at this stop. Services may have ended for the day or not started yet.',
+    }),
+  };
+}
+
+/**
+ * Fetch and decode live arrivals at a bus stop. Stop names come from the bus
+ * stop cache only if it is already loaded; a cold or failing cache just drops
+ * the names and never delays or fails the arrival lookup.
+ */
+export async function getBusArrivals(
+  busStopCode: string,
+  apiKey: string,
+  serviceNo?: string,
+): Promise<DecodedBusArrivals> {
+  const response = await fetchBusArrivals(busStopCode, apiKey, serviceNo);
+  return decodeBusArrivals(response, peekBusStopDirectory(apiKey));
+}
+
+function describeError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return `LTA API error: ${error.response?.data?.Message ?? error.message}`;
+  }
+
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Fetch and decode arrivals at several stops in one go. Requests run with
+ * bounded concurrency and a failure at one stop is reported in its own
+ * result without affecting the others. Service filters are applied locally
+ * so each stop costs a single API call.
+ */
+export async function getBusArrivalsForStops(requests: StopArrivalRequest[], apiKey: string) {
+  if (requests.length === 0) {
+    throw new Error('Provide at least one bus stop');
+  }
+  if (requests.length > MAX_MULTI_STOPS) {
+    throw new Error(`At most ${MAX_MULTI_STOPS} bus stops can be queried at once`);
+  }
+
+  const stops = peekBusStopDirectory(apiKey);
+  const results = await mapWithConcurrency(requests, MULTI_STOP_CONCURRENCY, async (request): Promise<StopArrivalResult> => {
+    try {
+      const busStopCode = typeof request?.busStopCode === 'string' ? request.busStopCode.trim() : '';
+      if (!/^\d{5}$/.test(busStopCode)) {
+        throw new Error(`Invalid bus stop code "${request?.busStopCode ?? ''}"; bus stop codes are 5 digits`);
+      }
+
+      const response = await fetchBusArrivals(busStopCode, apiKey);
+      const wanted = request.serviceNos?.length
+        ? new Set(request.serviceNos.map((serviceNo) => serviceNo.trim().toUpperCase()))
+        : null;
+      const filtered = wanted
+        ? { ...response, Services: response.Services.filter((service) => wanted.has(service.ServiceNo.toUpperCase())) }
+        : response;
+
+      return { ok: true, ...decodeBusArrivals(filtered, stops) };
+    } catch (error) {
+      return { ok: false, busStopCode: String(request?.busStopCode ?? '').trim(), error: describeError(error) };
+    }
+  });
+
+  return {
+    queriedAt: formatSingaporeTime(Date.now()),
+    results,
+  };
+}
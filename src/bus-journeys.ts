@@ -0,0 +1,397 @@
+/**
+ * Bus journey search over the cached BusRoutes dataset.
+ *
+ * Origins and destinations may be bus stop codes or free text; free text is
+ * resolved through the bus stop search and the top few candidates on each
+ * side are considered, so "Orchard" to "Changi Airport" still finds services
+ * that serve any of the matching stops.
+ *
+ * The journey planner treats the route table as a stop/service graph: every
+ * stop reachable from an origin candidate on one bus is joined to every stop
+ * from which one bus reaches a destination candidate, either at the same stop
+ * or after a short walk between nearby stops. Ride times are estimated from
+ * route distance; live arrivals can optionally re-rank the best itineraries.
+ */
+
+import { BusStop, findLoadedNearbyBusStops, getBusStopDirectory, NearbyBusStop, resolveBusStops } from './bus-stops-cache.js';
+import { BusRoute, getBusRouteIndex, routeKey } from './bus-routes-cache.js';
+import { fetchBusArrivals, MULTI_STOP_CONCURRENCY, upcomingArrivalTimes } from './bus-arrivals.js';
+import { mapWithConcurrency } from './utils/concurrency.js';
+import { formatSingaporeTime, minutesUntil } from './utils/sg-time.js';
+
+const MAX_CANDIDATE_STOPS = 5;
+const TRANSFER_WALK_RADIUS_M = 300;
+const TRANSFER_WAIT_MINUTES = 5; // assumed wait for the second bus
+const BUS_SPEED_KMH = 18; // average including dwell time at stops
+const MINUTES_PER_STOP = 2; // fallback when a route has no distance data
+const DEFAULT_ITINERARIES = 5;
+const MAX_ITINERARIES = 10;
+
+export interface DirectService {
+  serviceNo: string;
+  direction: number;
+  operator: string;
+  origin: { busStopCode: string; description: string; sequence: number };
+  destination: { busStopCode: string; description: string; sequence: number };
+  numberOfStops: number;
+  distanceKm: number | null;
+}
+
+function routeDistanceKm(from: BusRoute, to: BusRoute): number | null {
+  if (typeof from.Distance !== 'number' || typeof to.Distance !== 'number') {
+    return null;
+  }
+
+  return Math.round((to.Distance - from.Distance) * 10) / 10;
+}
+
+function summarizeStop(stop: BusStop) {
+  return { busStopCode: stop.BusStopCode, description: stop.Description, roadName: stop.RoadName };
+}
+
+async function resolveEndpoint(query: string, apiKey: string, label: string): Promise<BusStop[]> {
+  const stops = await resolveBusStops(query, apiKey, MAX_CANDIDATE_STOPS);
+  if (stops.length === 0) {
+    throw new Error(`No bus stops found matching ${label} "${query}"`);
+  }
+
+  return stops;
+}
+
+/**
+ * Find every service direction that calls at `originStop` and later at
+ * `destinationStop`. Loop services can call at a stop twice; the first
+ * downstream occurrence of the destination is used.
+ */
+function directServicesBetween(
+  routesByServiceDirection: Map<string, BusRoute[]>,
+  originRows: BusRoute[],
+  originStop: BusStop,
+  destinationStop: BusStop,
+): DirectService[] {
+  const results: DirectService[] = [];
+
+  for (const originRow of originRows) {
+    const rows = routesByServiceDirection.get(routeKey(originRow.ServiceNo, originRow.Direction)) ?? [];
+    const originIndex = rows.indexOf(originRow);
+    const destinationIndex = rows.findIndex(
+      (row, index) => index > originIndex && row.BusStopCode === destinationStop.BusStopCode,
+    );
+    if (originIndex < 0 || destinationIndex < 0) continue;
+
+    const destinationRow = rows[destinationIndex];
+    results.push({
+      serviceNo: originRow.ServiceNo,
+      direction: originRow.Direction,
+      operator: originRow.Operator,
+      origin: {
+        busStopCode: originStop.BusStopCode,
+        description: originStop.Description,
+        sequence: originRow.StopSequence,
+      },
+      destination: {
+        busStopCode: destinationStop.BusStopCode,
+        description: destinationStop.Description,
+        sequence: destinationRow.StopSequence,
+      },
+      numberOfStops: destinationIndex - originIndex,
+      distanceKm: routeDistanceKm(originRow, destinationRow),
+    });
+  }
+
+  return results;
+}
+
+/**
+ * List bus services that run directly from an origin to a destination, in
+ * the right order, shortest ride first. When several candidate stops match,
+ * each service direction is reported once, for its shortest pairing.
+ */
+export async function findBusesBetween(origin: string, destination: string, apiKey: string) {
+  const [originStops, destinationStops, index] = await Promise.all([
+    resolveEndpoint(origin, apiKey, 'origin'),
+    resolveEndpoint(destination, apiKey, 'destination'),
+    getBusRouteIndex(apiKey),
+  ]);
+
+  const best = new Map<string, DirectService>();
+  for (const originStop of originStops) {
+    const originRows = index.byStop.get(originStop.BusStopCode) ?? [];
+    for (const destinationStop of destinationStops) {
+      if (destinationStop.BusStopCode === originStop.BusStopCode) continue;
+
+      for (const service of directServicesBetween(index.byServiceDirection, originRows, originStop, destinationStop)) {
+        const key = routeKey(service.serviceNo, service.direction);
+        const current = best.get(key);
+        if (!current || service.numberOfStops < current.numberOfStops) {
+          best.set(key, service);
+        }
+      }
+    }
+  }
+
+  const services = [...best.values()].sort(
+    (a, b) => a.numberOfStops - b.numberOfStops || a.serviceNo.localeCompare(b.serviceNo, 'en', { numeric: true }),
+  );
+
+  return {
+    originCandidates: originStops.map(summarizeStop),
+    destinationCandidates: destinationStops.map(summarizeStop),
+    services,
+  };
+}
+
+export interface JourneyLeg {
+  serviceNo: string;
+  direction: number;
+  operator: string;
+  board: { busStopCode: string; description: string | null; sequence: number };
+  alight: { busStopCode: string; description: string | null; sequence: number };
+  numberOfStops: number;
+  distanceKm: number | null;
+  rideMinutes: number;
+}
+
+export interface JourneyItinerary {
+  transfers: 0 | 1;
+  legs: JourneyLeg[];
+  walkingTransfer?: { fromBusStopCode: string; toBusStopCode: string; distanceMeters: number; walkingMinutes: number };
+  estimatedMinutes: number;
+  live?: {
+    departsAt?: string;
+    departsInMinutes?: number;
+    estimatedArrivalAt?: string;
+    totalMinutes?: number;
+    note?: string;
+  };
+}
+
+function normalizeItineraryLimit(limit?: number): number {
+  if (typeof limit !== 'number' || !Number.isFinite(limit)) {
+    return DEFAULT_ITINERARIES;
+  }
+
+  return Math.max(1, Math.min(Math.floor(limit), MAX_ITINERARIES));
+}
+
+function buildLeg(
+  rows: BusRoute[],
+  boardIndex: number,
+  alightIndex: number,
+  stops: ReadonlyMap<string, BusStop>,
+): JourneyLeg {
+  const boardRow = rows[boardIndex];
+  const alightRow = rows[alightIndex];
+  const numberOfStops = alightIndex - boardIndex;
+  const distanceKm = routeDistanceKm(boardRow, alightRow);
+
+  return {
+    serviceNo: boardRow.ServiceNo,
+    direction: boardRow.Direction,
+    operator: boardRow.Operator,
+    board: {
+      busStopCode: boardRow.BusStopCode,
+      description: stops.get(boardRow.BusStopCode)?.Description ?? null,
+      sequence: boardRow.StopSequence,
+    },
+    alight: {
+      busStopCode: alightRow.BusStopCode,
+      description: stops.get(alightRow.BusStopCode)?.Description ?? null,
+      sequence: alightRow.StopSequence,
+    },
+    numberOfStops,
+    distanceKm,
+    rideMinutes: distanceKm !== null && distanceKm > 0
+      ? Math.max(1, Math.round((distanceKm / BUS_SPEED_KMH) * 60))
+      : numberOfStops * MINUTES_PER_STOP,
+  };
+}
+
+/**
+ * Keep the quickest leg per service direction for each stop.
+ */
+function addLeg(legsByStop: Map<string, Map<string, JourneyLeg>>, stopCode: string, leg: JourneyLeg): void {
+  let legs = legsByStop.get(stopCode);
+  if (!legs) {
+    legs = new Map();
+    legsByStop.set(stopCode, legs);
+  }
+
+  const key = routeKey(leg.serviceNo, leg.direction);
+  const current = legs.get(key);
+  if (!current || leg.rideMinutes < current.rideMinutes) {
+    legs.set(key, leg);
+  }
+}
+
+/**
+ * Re-rank itineraries by live arrivals: wait for the first bus at the
+ * boarding stop, ride, walk, then catch the first second-leg bus that
+ * arrives after reaching the transfer stop.
+ */
+async function applyLiveArrivals(itineraries: JourneyItinerary[], apiKey: string): Promise<void> {
+  const arrivalRequests = new Map<string, Promise<number[]>>();
+  const arrivalsFor = (busStopCode: string, serviceNo: string) => {
+    const key = `${busStopCode}:${serviceNo}`;
+    let request = arrivalRequests.get(key);
+    if (!request) {
+      request = fetchBusArrivals(busStopCode, apiKey, serviceNo).then((response) => {
+        const service = response.Services.find((entry) => entry.ServiceNo === serviceNo);
+        return service ? upcomingArrivalTimes(service) : [];
+      });
+      arrivalRequests.set(key, request);
+    }
+    return request;
+  };
+
+  await mapWithConcurrency(itineraries, MULTI_STOP_CONCURRENCY, async (itinerary) => {
+    try {
+      const now = Date.now();
+      const [firstLeg, secondLeg] = itinerary.legs;
+      const departures = await arrivalsFor(firstLeg.board.busStopCode, firstLeg.serviceNo);
+      const departsAt = departures.find((time) => time >= now - 60000);
+      if (departsAt === undefined) {
+        itinerary.live = { note: `No upcoming ${firstLeg.serviceNo} bus reported at ${firstLeg.board.busStopCode}` };
+        return;
+      }
+
+      let arrivalAt = departsAt + firstLeg.rideMinutes * 60000;
+      let note: string | undefined;
+      if (secondLeg) {
+        const readyAt = arrivalAt + (itinerary.walkingTransfer?.walkingMinutes ?? 0) * 60000;
+        const connections = await arrivalsFor(secondLeg.board.busStopCode, secondLeg.serviceNo);
+        const connectionAt = connections.find((time) => time >= readyAt);
+        if (connectionAt === undefined) {
+          note = `Second leg uses an assumed ${TRANSFER_WAIT_MINUTES}-minute wait (no live ${secondLeg.serviceNo} arrival after transfer)`;
+        }
+        arrivalAt = (connectionAt ?? readyAt + TRANSFER_WAIT_MINUTES * 60000) + secondLeg.rideMinutes * 60000;
+      }
+
+      itinerary.live = {
+        departsAt: formatSingaporeTime(departsAt),
+        departsInMinutes: minutesUntil(departsAt, now),
+        estimatedArrivalAt: formatSingaporeTime(arrivalAt),
+        totalMinutes: minutesUntil(arrivalAt, now),
+        ...(note && { note }),
+      };
+    } catch (error) {
+      itinerary.live = { note: `Live arrivals unavailable: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  });
+}
+
+/**
+ * Plan bus journeys with at most one transfer between an origin and a
+ * destination, best first. Transfers may include a short walk between
+ * nearby stops.
+ */
+export async function planBusJourney(
+  origin: string,
+  destination: string,
+  apiKey: string,
+  options: { limit?: number; useLiveArrivals?: boolean } = {},
+) {
+  const [originStops, destinationStops, index, stops] = await Promise.all([
+    resolveEndpoint(origin, apiKey, 'origin'),
+    resolveEndpoint(destination, apiKey, 'destination'),
+    getBusRouteIndex(apiKey),
+    getBusStopDirectory(apiKey),
+  ]);
+  const limit = normalizeItineraryLimit(options.limit);
+
+  // Everywhere reachable on one bus from an origin candidate, keyed by alighting stop
+  const firstLegs = new Map<string, Map<string, JourneyLeg>>();
+  for (const originStop of originStops) {
+    for (const originRow of index.byStop.get(originStop.BusStopCode) ?? []) {
+      const rows = index.byServiceDirection.get(routeKey(originRow.ServiceNo, originRow.Direction)) ?? [];
+      const boardIndex = rows.indexOf(originRow);
+      for (let alightIndex = boardIndex + 1; alightIndex < rows.length; alightIndex++) {
+        addLeg(firstLegs, rows[alightIndex].BusStopCode, buildLeg(rows, boardIndex, alightIndex, stops));
+      }
+    }
+  }
+
+  // Everywhere one bus to a destination candidate can be boarded, keyed by boarding stop
+  const lastLegs = new Map<string, Map<string, JourneyLeg>>();
+  for (const destinationStop of destinationStops) {
+    for (const destinationRow of index.byStop.get(destinationStop.BusStopCode) ?? []) {
+      const rows = index.byServiceDirection.get(routeKey(destinationRow.ServiceNo, destinationRow.Direction)) ?? [];
+      const alightIndex = rows.indexOf(destinationRow);
+      for (let boardIndex = 0; boardIndex < alightIndex; boardIndex++) {
+        addLeg(lastLegs, rows[boardIndex].BusStopCode, buildLeg(rows, boardIndex, alightIndex, stops));
+      }
+    }
+  }
+
+  const best = new Map<string, JourneyItinerary>();
+  const consider = (key: string, itinerary: JourneyItinerary) => {
+    const current = best.get(key);
+    if (!current || itinerary.estimatedMinutes < current.estimatedMinutes) {
+      best.set(key, itinerary);
+    }
+  };
+
+  const destinationCodes = new Set(destinationStops.map((stop) => stop.BusStopCode));
+  for (const [alightCode, legs] of firstLegs) {
+    if (destinationCodes.has(alightCode)) {
+      for (const [serviceKey, leg] of legs) {
+        consider(serviceKey, { transfers: 0, legs: [leg], estimatedMinutes: leg.rideMinutes });
+      }
+      continue;
+    }
+
+    let nearby: NearbyBusStop[] = [];
+    try {
+      nearby = findLoadedNearbyBusStops({ busStopCode: alightCode }, TRANSFER_WALK_RADIUS_M, 20).stops;
+    } catch {
+      // Stops without coordinates only allow same-stop transfers
+    }
+    const transferPoints = [
+      { busStopCode: alightCode, distanceMeters: 0, walkingMinutes: 0 },
+      ...nearby.map((stop) => ({ busStopCode: stop.BusStopCode, distanceMeters: stop.distanceMeters, walkingMinutes: stop.walkingMinutes })),
+    ];
+
+    for (const transferPoint of transferPoints) {
+      const connectingLegs = lastLegs.get(transferPoint.busStopCode);
+      if (!connectingLegs) continue;
+
+      for (const [firstKey, firstLeg] of legs) {
+        for (const [secondKey, secondLeg] of connectingLegs) {
+          if (firstKey === secondKey) continue;
+
+          consider(`${firstKey}>${secondKey}`, {
+            transfers: 1,
+            legs: [firstLeg, secondLeg],
+            ...(transferPoint.distanceMeters > 0 && {
+              walkingTransfer: {
+                fromBusStopCode: alightCode,
+                toBusStopCode: transferPoint.busStopCode,
+                distanceMeters: transferPoint.distanceMeters,
+                walkingMinutes: transferPoint.walkingMinutes,
+              },
+            }),
+            estimatedMinutes: firstLeg.rideMinutes + transferPoint.walkingMinutes + TRANSFER_WAIT_MINUTES + secondLeg.rideMinutes,
+          });
+        }
+      }
+    }
+  }
+
+  let itineraries = [...best.values()]
+    .sort((a, b) => a.estimatedMinutes - b.estimatedMinutes || a.transfers - b.transfers);
+
+  if (options.useLiveArrivals) {
+    // Only the strongest candidates are worth the extra API calls
+    itineraries = itineraries.slice(0, Math.min(limit * 2, MAX_ITINERARIES));
+    await applyLiveArrivals(itineraries, apiKey);
+    itineraries.sort((a, b) =>
+      (a.live?.totalMinutes ?? Infinity) - (b.live?.totalMinutes ?? Infinity)
+      || a.estimatedMinutes - b.estimatedMinutes);
+  }
+
+  return {
+    originCandidates: originStops.map(summarizeStop),
+    destinationCandidates: destinationStops.map(summarizeStop),
+    itineraries: itineraries.slice(0, limit),
+  };
+}
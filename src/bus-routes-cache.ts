@@ -0,0 +1,195 @@
+/**
+ * Bus services and bus routes cache — fetches the BusServices and BusRoutes
+ * reference datasets from LTA DataMall on first use and keeps them in memory
+ * for 24 hours.
+ *
+ * BusRoutes is the largest reference dataset (~26,000 rows, one per stop per
+ * service direction), so rows are grouped by service and direction and
+ * sorted by stop sequence once, at load time.
+ */
+
+import { getBusStopDirectory } from './bus-stops-cache.js';
+import { DATAMALL_BASE_URL, fetchAllPages } from './utils/datamall-client.js';
+import { createReferenceCache } from './utils/reference-cache.js';
+
+export interface BusService {
+  ServiceNo: string;
+  Operator: string;
+  Direction: number;
+  Category: string;
+  OriginCode: string;
+  DestinationCode: string;
+  AM_Peak_Freq: string;
+  AM_Offpeak_Freq: string;
+  PM_Peak_Freq: string;
+  PM_Offpeak_Freq: string;
+  LoopDesc: string;
+}
+
+export interface BusRoute {
+  ServiceNo: string;
+  Operator: string;
+  Direction: number;
+  StopSequence: number;
+  BusStopCode: string;
+  Distance: number | null;
+  WD_FirstBus: string;
+  WD_LastBus: string;
+  SAT_FirstBus: string;
+  SAT_LastBus: string;
+  SUN_FirstBus: string;
+  SUN_LastBus: string;
+}
+
+export interface BusRouteIndex {
+  /** Route rows keyed by `routeKey(serviceNo, direction)`, in stop order. */
+  byServiceDirection: Map<string, BusRoute[]>;
+  /** Route rows keyed by bus stop code, one per service direction calling there. */
+  byStop: Map<string, BusRoute[]>;
+}
+
+const OPERATOR_NAMES: Record<string, string> = {
+  SBST: 'SBS Transit',
+  SMRT: 'SMRT Buses',
+  TTS: 'Tower Transit Singapore',
+  GAS: 'Go-Ahead Singapore',
+};
+
+const servicesCache = createReferenceCache<Map<string, BusService[]>>({
+  name: 'bus services',
+  load: async (apiKey) => {
+    const services = await fetchAllPages<BusService>(`${DATAMALL_BASE_URL}/BusServices`, apiKey);
+    const byService = new Map<string, BusService[]>();
+    for (const service of services) {
+      const key = normalizeServiceNo(service.ServiceNo);
+      const entries = byService.get(key);
+      if (entries) {
+        entries.push(service);
+      } else {
+        byService.set(key, [service]);
+      }
+    }
+    for (const entries of byService.values()) {
+      entries.sort((a, b) => a.Direction - b.Direction);
+    }
+    return byService;
+  },
+  describe: (byService) => `${byService.size} bus services`,
+});
+
+const routesCache = createReferenceCache<BusRouteIndex>({
+  name: 'bus routes',
+  load: async (apiKey) => {
+    const routes = await fetchAllPages<BusRoute>(`${DATAMALL_BASE_URL}/BusRoutes`, apiKey, { maxRecords: 60000 });
+    const byServiceDirection = new Map<string, BusRoute[]>();
+    const byStop = new Map<string, BusRoute[]>();
+
+    for (const route of routes) {
+      const key = routeKey(route.ServiceNo, route.Direction);
+      const rows = byServiceDirection.get(key);
+      if (rows) {
+        rows.push(route);
+      } else {
+        byServiceDirection.set(key, [route]);
+      }
+
+      const stopRows = byStop.get(route.BusStopCode);
+      if (stopRows) {
+        stopRows.push(route);
+      } else {
+        byStop.set(route.BusStopCode, [route]);
+      }
+    }
+
+    for (const rows of byServiceDirection.values()) {
+      rows.sort((a, b) => a.StopSequence - b.StopSequence);
+    }
+
+    return { byServiceDirection, byStop };
+  },
+  describe: (index) => `bus routes for ${index.byServiceDirection.size} service directions`,
+});
+
+export function normalizeServiceNo(serviceNo: string): string {
+  return serviceNo.trim().toUpperCase();
+}
+
+export function routeKey(serviceNo: string, direction: number): string {
+  return `${normalizeServiceNo(serviceNo)}:${direction}`;
+}
+
+/**
+ * Get the grouped BusRoutes dataset, loading it if needed.
+ */
+export async function getBusRouteIndex(apiKey: string): Promise<BusRouteIndex> {
+  return routesCache.get(apiKey);
+}
+
+/**
+ * Describe a bus service (both directions): operator, category, peak/off-peak
+ * frequencies and named origin/destination.
+ */
+export async function getBusServiceInfo(serviceNo: string, apiKey: string) {
+  const [byService, stops] = await Promise.all([
+    servicesCache.get(apiKey),
+    getBusStopDirectory(apiKey),
+  ]);
+
+  const entries = byService.get(normalizeServiceNo(serviceNo)) ?? [];
+  return entries.map((service) => ({
+    serviceNo: service.ServiceNo,
+    direction: service.Direction,
+    operator: service.Operator,
+    operatorName: OPERATOR_NAMES[service.Operator] ?? service.Operator,
+    category: service.Category,
+    origin: {
+      busStopCode: service.OriginCode,
+      description: stops.get(service.OriginCode)?.Description ?? null,
+    },
+    destination: {
+      busStopCode: service.DestinationCode,
+      description: stops.get(service.DestinationCode)?.Description ?? null,
+    },
+    ...(service.LoopDesc && { loopDescription: service.LoopDesc }),
+    // Frequencies are DataMall's "min-max" minutes between buses
+    frequencyMinutes: {
+      amPeak: service.AM_Peak_Freq || null,
+      amOffPeak: service.AM_Offpeak_Freq || null,
+      pmPeak: service.PM_Peak_Freq || null,
+      pmOffPeak: service.PM_Offpeak_Freq || null,
+    },
+  }));
+}
+
+/**
+ * Get the ordered stops of a bus service, for one direction or for every
+ * direction the service runs in. Distances are cumulative from the origin.
+ */
+export async function getBusRoute(serviceNo: string, apiKey: string, direction?: number) {
+  const [index, stops] = await Promise.all([
+    routesCache.get(apiKey),
+    getBusStopDirectory(apiKey),
+  ]);
+
+  const directions = typeof direction === 'number' ? [direction] : [1, 2];
+  return directions
+    .map((dir) => index.byServiceDirection.get(routeKey(serviceNo, dir)))
+    .filter((rows): rows is BusRoute[] => Boolean(rows && rows.length > 0))
+    .map((rows) => {
+      const last = rows[rows.length - 1];
+      return {
+        serviceNo: rows[0].ServiceNo,
+        direction: rows[0].Direction,
+        operator: rows[0].Operator,
+        totalStops: rows.length,
+        totalDistanceKm: last.Distance,
+        stops: rows.map((row) => ({
+          sequence: row.StopSequence,
+          busStopCode: row.BusStopCode,
+          description: stops.get(row.BusStopCode)?.Description ?? null,
+          roadName: stops.get(row.BusStopCode)?.RoadName ?? null,
+          distanceKm: row.Distance,
+        })),
+      };
+    });
+}
@@ -1,12 +1,17 @@
 /**
  * Bus stops cache — fetches all bus stops from LTA DataMall on first use,
- * caches in memory, and provides substring search by name/road/code.
+ * caches in memory, and provides substring search by name/road/code as well
+ * as proximity search by coordinates.
  *
  * The BusStops endpoint returns 500 records per page. We paginate through
- * all pages on first load and refresh every 24 hours.
+ * all pages on first load and refresh every 24 hours. A lookup by code and a
+ * coarse lat/lon grid index are rebuilt on every load.
  */
 
-import axios from 'axios';
+import { DATAMALL_BASE_URL, fetchAllPages } from './utils/datamall-client.js';
+import { normalizeRadius } from './utils/filters.js';
+import { estimateWalk, haversineMeters, isValidCoordinate } from './utils/geo.js';
+import { createReferenceCache } from './utils/reference-cache.js';
 
 export interface BusStop {
   BusStopCode: string;
@@ -16,15 +21,34 @@ export interface BusStop {
   Longitude: number;
 }
 
-const LTA_BUS_STOPS_URL = 'https://datamall2.mytransport.sg/ltaodataservice/BusStops';
-const PAGE_SIZE = 500;
-const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-const REFRESH_RETRY_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+export interface NearbyBusStop extends BusStop {
+  distanceMeters: number;
+  walkingDistanceMeters: number;
+  walkingMinutes: number;
+}
+
+export interface NearbyAnchor {
+  latitude?: number;
+  longitude?: number;
+  busStopCode?: string;
+}
+
+export interface NearbyBusStopsResult {
+  anchor: { latitude: number; longitude: number; busStop?: BusStop };
+  radiusMeters: number;
+  stops: NearbyBusStop[];
+}
 
-let cachedStops: BusStop[] = [];
-let cacheLoadedAt = 0;
-let loadingPromise: Promise<void> | null = null;
-let lastRefreshFailureAt = 0;
+interface BusStopIndex {
+  stops: BusStop[];
+  byCode: Map<string, BusStop>;
+  byCell: Map<string, BusStop[]>;
+}
+
+const LTA_BUS_STOPS_URL = `${DATAMALL_BASE_URL}/BusStops`;
+const GRID_CELL_DEG = 0.005; // ~550 m at Singapore's latitude
+const DEFAULT_RADIUS_M = 500;
+const MAX_RADIUS_M = 2000;
 
 function normalizeLimit(limit?: number): number {
   if (typeof limit !== 'number' || !Number.isFinite(limit)) {
@@ -34,72 +58,52 @@ function normalizeLimit(limit?: number): number {
   return Math.max(0, Math.min(Math.floor(limit), 20));
 }
 
+function cellKey(latCell: number, lonCell: number): string {
+  return `${latCell}:${lonCell}`;
+}
+
 /**
- * Fetch all bus stops from LTA DataMall, paginating through all pages.
+ * Build the code lookup and grid index. Stops without coordinates are
+ * searchable by text but left out of the grid.
  */
-async function fetchAllBusStops(apiKey: string): Promise<BusStop[]> {
-  const allStops: BusStop[] = [];
-  let skip = 0;
-
-  while (true) {
-    const response = await axios.get(LTA_BUS_STOPS_URL, {
-      params: { $skip: skip },
-      headers: { 'AccountKey': apiKey, 'accept': 'application/json' },
-    });
-
-    const stops: BusStop[] = response.data?.value || [];
-    if (stops.length === 0) break;
+function buildIndexes(stops: BusStop[]): BusStopIndex {
+  const byCode = new Map<string, BusStop>();
+  const byCell = new Map<string, BusStop[]>();
 
-    allStops.push(...stops);
-    skip += PAGE_SIZE;
+  for (const stop of stops) {
+    byCode.set(stop.BusStopCode, stop);
+    if (!isValidCoordinate(stop.Latitude, stop.Longitude)) continue;
 
-    // Safety valve — Singapore has ~5500 stops
-    if (skip > 20000) break;
+    const key = cellKey(
+      Math.floor(stop.Latitude / GRID_CELL_DEG),
+      Math.floor(stop.Longitude / GRID_CELL_DEG),
+    );
+    const bucket = byCell.get(key);
+    if (bucket) {
+      bucket.push(stop);
+    } else {
+      byCell.set(key, [stop]);
+    }
   }
 
-  return allStops;
+  return { stops, byCode, byCell };
 }
 
 /**
- * Ensure the cache is loaded. Safe to call concurrently — deduplicates.
+ * Fetch all bus stops from LTA DataMall, paginating through all pages.
  */
-async function ensureLoaded(apiKey: string): Promise<void> {
-  const now = Date.now();
-  const hasCachedStops = cachedStops.length > 0;
-  if (hasCachedStops && now - cacheLoadedAt < CACHE_TTL_MS) {
-    return;
-  }
-
-  if (hasCachedStops && now - lastRefreshFailureAt < REFRESH_RETRY_DELAY_MS) {
-    return;
-  }
-
-  if (loadingPromise) {
-    return loadingPromise;
-  }
+async function fetchAllBusStops(apiKey: string): Promise<BusStop[]> {
+  // Singapore has ~5500 stops, well inside the client's safety valve
+  return fetchAllPages<BusStop>(LTA_BUS_STOPS_URL, apiKey);
+}
 
-  loadingPromise = (async () => {
-    try {
-      console.log('Loading bus stops from LTA DataMall...');
-      const stops = await fetchAllBusStops(apiKey);
-      cachedStops = stops;
-      cacheLoadedAt = Date.now();
-      lastRefreshFailureAt = 0;
-      console.log(`Loaded ${stops.length} bus stops`);
-    } catch (error) {
-      console.error('Failed to load bus stops:', error);
-      // If we have stale data, keep using it
-      if (cachedStops.length === 0) {
-        throw error;
-      }
-      lastRefreshFailureAt = Date.now();
-    } finally {
-      loadingPromise = null;
-    }
-  })();
+const stopsCache = createReferenceCache<BusStopIndex>({
+  name: 'bus stops',
+  load: async (apiKey) => buildIndexes(await fetchAllBusStops(apiKey)),
+  describe: (index) => `${index.stops.length} bus stops`,
+});
 
-  return loadingPromise;
-}
+const EMPTY_INDEX: BusStopIndex = { stops: [], byCode: new Map(), byCell: new Map() };
 
 /**
  * Search bus stops by name (Description), road name, or bus stop code.
@@ -115,7 +119,7 @@ export async function searchBusStops(
     return [];
   }
 
-  await ensureLoaded(apiKey);
+  const { stops } = await stopsCache.get(apiKey);
 
   const normalizedLimit = normalizeLimit(limit);
   const normalizedQuery = trimmedQuery.toLowerCase();
@@ -123,7 +127,7 @@ export async function searchBusStops(
   const terms = normalizedQuery.split(/\s+/).filter(Boolean);
 
   // Score each stop: exact code match > all terms match description > partial matches
-  const scored = cachedStops
+  const scored = stops
     .map((stop) => {
       const code = stop.BusStopCode.toLowerCase();
       const desc = stop.Description.toLowerCase();
@@ -157,9 +161,142 @@ export async function searchBusStops(
   return scored;
 }
 
+/**
+ * Look up a single bus stop by its exact 5-digit code.
+ */
+export async function getBusStop(busStopCode: string, apiKey: string): Promise<BusStop | undefined> {
+  const { byCode } = await stopsCache.get(apiKey);
+  return byCode.get(busStopCode.trim());
+}
+
+/**
+ * Resolve user input to bus stops: an exact 5-digit code resolves to that
+ * stop alone, anything else falls back to `searchBusStops`.
+ */
+export async function resolveBusStops(
+  query: string,
+  apiKey: string,
+  limit: number = 5,
+): Promise<BusStop[]> {
+  const trimmedQuery = query.trim();
+  if (/^\d{5}$/.test(trimmedQuery)) {
+    const { byCode } = await stopsCache.get(apiKey);
+    const stop = byCode.get(trimmedQuery);
+    if (stop) {
+      return [stop];
+    }
+  }
+
+  return searchBusStops(trimmedQuery, apiKey, limit);
+}
+
+/**
+ * Get the full code → stop lookup, loading the cache if needed.
+ */
+export async function getBusStopDirectory(apiKey: string): Promise<ReadonlyMap<string, BusStop>> {
+  const { byCode } = await stopsCache.get(apiKey);
+  return byCode;
+}
+
+/**
+ * Get the code → stop lookup without waiting for it: returns whatever is
+ * loaded (empty on a cold cache) and starts a load or refresh in the
+ * background if one is due.
+ */
+export function peekBusStopDirectory(apiKey: string): ReadonlyMap<string, BusStop> {
+  // Failures are logged by the cache; callers just go without stop names
+  stopsCache.get(apiKey).catch(() => undefined);
+  return (stopsCache.peek() ?? EMPTY_INDEX).byCode;
+}
+
+/**
+ * Find bus stops within `radius` metres of a coordinate or of another bus stop,
+ * ordered by estimated walking distance. When anchored on a bus stop code, the
+ * anchor stop itself is excluded from the results.
+ */
+export async function findNearbyBusStops(
+  anchor: NearbyAnchor,
+  apiKey: string,
+  radius: number = DEFAULT_RADIUS_M,
+  limit: number = 10,
+): Promise<NearbyBusStopsResult> {
+  await stopsCache.get(apiKey);
+  return findLoadedNearbyBusStops(anchor, radius, limit);
+}
+
+/**
+ * Same as `findNearbyBusStops`, synchronously, for callers that have already
+ * loaded the cache (for example through `getBusStopDirectory`) and look up
+ * many anchors in a loop.
+ */
+export function findLoadedNearbyBusStops(
+  anchor: NearbyAnchor,
+  radius: number = DEFAULT_RADIUS_M,
+  limit: number = 10,
+): NearbyBusStopsResult {
+  const { byCode, byCell } = stopsCache.peek() ?? EMPTY_INDEX;
+  let latitude: number;
+  let longitude: number;
+  let anchorStop: BusStop | undefined;
+
+  if (anchor.busStopCode) {
+    anchorStop = byCode.get(anchor.busStopCode.trim());
+    if (!anchorStop) {
+      throw new Error(`Bus stop ${anchor.busStopCode} not found`);
+    }
+    if (!isValidCoordinate(anchorStop.Latitude, anchorStop.Longitude)) {
+      throw new Error(`Bus stop ${anchor.busStopCode} has no coordinates`);
+    }
+    latitude = anchorStop.Latitude;
+    longitude = anchorStop.Longitude;
+  } else if (isValidCoordinate(anchor.latitude, anchor.longitude)) {
+    latitude = anchor.latitude as number;
+    longitude = anchor.longitude as number;
+  } else {
+    throw new Error('Provide either latitude and longitude, or busStopCode');
+  }
+
+  const radiusMeters = normalizeRadius(radius, DEFAULT_RADIUS_M, MAX_RADIUS_M);
+  const normalizedLimit = normalizeLimit(limit);
+
+  // Scan only the grid cells that can intersect the search circle
+  const latSpan = radiusMeters / 111_320;
+  const lonSpan = radiusMeters / (111_320 * Math.cos((latitude * Math.PI) / 180));
+  const minLatCell = Math.floor((latitude - latSpan) / GRID_CELL_DEG);
+  const maxLatCell = Math.floor((latitude + latSpan) / GRID_CELL_DEG);
+  const minLonCell = Math.floor((longitude - lonSpan) / GRID_CELL_DEG);
+  const maxLonCell = Math.floor((longitude + lonSpan) / GRID_CELL_DEG);
+
+  const nearby: NearbyBusStop[] = [];
+  for (let latCell = minLatCell; latCell <= maxLatCell; latCell++) {
+    for (let lonCell = minLonCell; lonCell <= maxLonCell; lonCell++) {
+      for (const stop of byCell.get(cellKey(latCell, lonCell)) ?? []) {
+        if (stop === anchorStop) continue;
+
+        const distanceMeters = haversineMeters(latitude, longitude, stop.Latitude, stop.Longitude);
+        if (distanceMeters > radiusMeters) continue;
+
+        nearby.push({
+          ...stop,
+          distanceMeters: Math.round(distanceMeters),
+          ...estimateWalk(distanceMeters),
+        });
+      }
+    }
+  }
+
+  nearby.sort((a, b) => a.distanceMeters - b.distanceMeters);
+
+  return {
+    anchor: { latitude, longitude, ...(anchorStop && { busStop: anchorStop }) },
+    radiusMeters,
+    stops: nearby.slice(0, normalizedLimit),
+  };
+}
+
 /**
  * Get the number of cached bus stops (for diagnostics).
  */
 export function getCachedStopCount(): number {
-  return cachedStops.length;
+  return stopsCache.peek()?.stops.length ?? 0;
 }
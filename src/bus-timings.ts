@@ -0,0 +1,182 @@
+/**
+ * First and last bus times of the services calling at a stop, from the
+ * cached BusRoutes dataset, and whether the last bus can still be caught.
+ *
+ * BusRoutes has a first and last bus time per stop for weekdays, Saturdays
+ * and Sundays (which also apply on public holidays), as "HHMM" Singapore
+ * time or "-" when the service does not run that day. Last buses often pass
+ * after midnight; those times belong to the evening before, so the service
+ * day here runs from 04:00 to 04:00, and at 00:30 on a Saturday the Friday
+ * (weekday) last bus is the one that matters.
+ */
+
+import { BusRoute, getBusRouteIndex, normalizeServiceNo, routeKey } from './bus-routes-cache.js';
+import { getBusStopDirectory, resolveBusStops } from './bus-stops-cache.js';
+import { formatClockTime, formatSingaporeTime, singaporeDateParts } from './utils/sg-time.js';
+
+export interface BusTimingsQuery {
+  /** Bus stop code or name */
+  busStop?: string;
+  serviceNo?: string;
+}
+
+export type BusDayType = 'weekday' | 'saturday' | 'sunday';
+
+const DAY_MINUTES = 24 * 60;
+const SERVICE_DAY_START_MINUTES = 4 * 60;
+const TIMINGS_NOTE = 'Public holidays use Sunday timings but are not detected. Times are scheduled; buses can pass a few minutes early or late.';
+
+const DAY_TYPE_NAMES: Record<BusDayType, string> = {
+  weekday: 'weekdays',
+  saturday: 'Saturdays',
+  sunday: 'Sundays',
+};
+
+const TIMING_FIELDS: Record<BusDayType, { first: keyof BusRoute; last: keyof BusRoute }> = {
+  weekday: { first: 'WD_FirstBus', last: 'WD_LastBus' },
+  saturday: { first: 'SAT_FirstBus', last: 'SAT_LastBus' },
+  sunday: { first: 'SUN_FirstBus', last: 'SUN_LastBus' },
+};
+
+function dayTypeOf(dayOfWeek: number): BusDayType {
+  return dayOfWeek === 0 ? 'sunday' : dayOfWeek === 6 ? 'saturday' : 'weekday';
+}
+
+/**
+ * Minutes into the service day of an "HHMM" time; times before 04:00 are
+ * after midnight, so count past 24:00.
+ */
+function parseBusTime(value: unknown): number | undefined {
+  const match = /^(\d{2}):?(\d{2})$/.exec(String(value ?? '').trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes < SERVICE_DAY_START_MINUTES ? minutes + DAY_MINUTES : minutes;
+}
+
+function timingFor(row: BusRoute, dayType: BusDayType) {
+  const first = parseBusTime(row[TIMING_FIELDS[dayType].first]);
+  const last = parseBusTime(row[TIMING_FIELDS[dayType].last]);
+  return first === undefined || last === undefined ? undefined : { first, last };
+}
+
+function formatBusTime(minutes: number): string {
+  return formatClockTime(minutes % DAY_MINUTES);
+}
+
+/**
+ * Where the current service day stands for one route row: not started,
+ * running (with minutes until the last bus), ended or not running today.
+ */
+function tonight(row: BusRoute, dayType: BusDayType, nextDayType: BusDayType, nowMinutes: number) {
+  const today = timingFor(row, dayType);
+  const tomorrow = timingFor(row, nextDayType);
+  const nextFirstBus = tomorrow
+    ? { nextFirstBus: `${formatBusTime(tomorrow.first)} (${nextDayType} timing)` }
+    : {};
+
+  if (!today) {
+    return {
+      status: 'no_service_today',
+      canStillCatch: false,
+      message: `Does not run at this stop on ${DAY_TYPE_NAMES[dayType]}`,
+      ...nextFirstBus,
+    };
+  }
+  if (nowMinutes < today.first) {
+    return {
+      status: 'not_started',
+      canStillCatch: true,
+      minutesUntilFirstBus: today.first - nowMinutes,
+      message: `First bus at ${formatBusTime(today.first)}, last bus at ${formatBusTime(today.last)}`,
+    };
+  }
+  if (nowMinutes <= today.last) {
+    const minutesUntilLastBus = today.last - nowMinutes;
+    return {
+      status: 'running',
+      canStillCatch: true,
+      minutesUntilLastBus,
+      message: `Last bus at ${formatBusTime(today.last)}, in ${minutesUntilLastBus} min`,
+    };
+  }
+
+  return {
+    status: 'ended',
+    canStillCatch: false,
+    message: `Last bus left at ${formatBusTime(today.last)}; no more buses today`,
+    ...nextFirstBus,
+  };
+}
+
+/**
+ * First and last bus times for weekdays, Saturdays and Sundays of every
+ * service calling at a stop (or one service), with whether its last bus
+ * can still be caught at the current Singapore time.
+ */
+export async function getBusTimings(query: BusTimingsQuery, apiKey: string) {
+  const stopQuery = query.busStop?.trim();
+  if (!stopQuery) {
+    throw new Error('Provide a bus stop code or name');
+  }
+
+  const [stop] = await resolveBusStops(stopQuery, apiKey, 1);
+  if (!stop) {
+    throw new Error(`No bus stop found matching "${stopQuery}"`);
+  }
+
+  const [index, stops] = await Promise.all([getBusRouteIndex(apiKey), getBusStopDirectory(apiKey)]);
+  const serviceNo = query.serviceNo?.trim() ? normalizeServiceNo(query.serviceNo) : undefined;
+  const rows = (index.byStop.get(stop.BusStopCode) ?? [])
+    .filter((row) => !serviceNo || normalizeServiceNo(row.ServiceNo) === serviceNo)
+    .sort((a, b) => a.ServiceNo.localeCompare(b.ServiceNo, undefined, { numeric: true })
+      || a.Direction - b.Direction
+      || a.StopSequence - b.StopSequence);
+  if (serviceNo && rows.length === 0) {
+    throw new Error(`Bus service ${serviceNo} does not call at ${stop.BusStopCode} (${stop.Description})`);
+  }
+
+  // Before 04:00 is still the previous service day
+  const now = Date.now();
+  const parts = singaporeDateParts(now);
+  let nowMinutes = parts.hour * 60 + parts.minute;
+  let dayOfWeek = parts.dayOfWeek;
+  if (nowMinutes < SERVICE_DAY_START_MINUTES) {
+    nowMinutes += DAY_MINUTES;
+    dayOfWeek = (dayOfWeek + 6) % 7;
+  }
+  const dayType = dayTypeOf(dayOfWeek);
+  const nextDayType = dayTypeOf((dayOfWeek + 1) % 7);
+
+  return {
+    busStop: {
+      busStopCode: stop.BusStopCode,
+      description: stop.Description,
+      roadName: stop.RoadName,
+    },
+    checkedAt: formatSingaporeTime(now),
+    dayType,
+    note: TIMINGS_NOTE,
+    services: rows.map((row) => {
+      const route = index.byServiceDirection.get(routeKey(row.ServiceNo, row.Direction)) ?? [];
+      const terminal = route[route.length - 1]?.BusStopCode;
+      const visits = rows.filter((other) => other.ServiceNo === row.ServiceNo && other.Direction === row.Direction);
+
+      return {
+        serviceNo: row.ServiceNo,
+        direction: row.Direction,
+        operator: row.Operator,
+        towards: (terminal && stops.get(terminal)?.Description) ?? terminal ?? null,
+        // Loop services can call at a stop twice
+        ...(visits.length > 1 && { stopSequence: row.StopSequence }),
+        timings: Object.fromEntries((Object.keys(TIMING_FIELDS) as BusDayType[]).map((type) => {
+          const timing = timingFor(row, type);
+          return [type, timing ? { firstBus: formatBusTime(timing.first), lastBus: formatBusTime(timing.last) } : null];
+        })),
+        tonight: tonight(row, dayType, nextDayType, nowMinutes),
+      };
+    }),
+  };
+}
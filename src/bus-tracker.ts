@@ -0,0 +1,342 @@
+/**
+ * Live positions of the buses of one service along its route, rebuilt from
+ * v3/BusArrival at a handful of the route's stops.
+ *
+ * BusArrival only answers "what is coming to this stop", but each of its
+ * next-bus slots carries the bus's last GPS fix. Asking a few stops spread
+ * along the route (or leading up to the rider's stop) and placing every
+ * reported bus on the nearest segment of the ordered BusRoutes stops gives a
+ * picture of where the next buses are. Responses are cached briefly so
+ * repeated questions about the same service do not refetch every stop.
+ */
+
+import { BusArrivalResponse, DecodedBus, decodeNextBus, fetchBusArrivals } from './bus-arrivals.js';
+import { BusRoute, getBusRouteIndex, normalizeServiceNo, routeKey } from './bus-routes-cache.js';
+import { BusStop, getBusStopDirectory, resolveBusStops } from './bus-stops-cache.js';
+import { mapWithConcurrency } from './utils/concurrency.js';
+import { normalizeLimit } from './utils/filters.js';
+import { distanceToSegment, haversineMeters } from './utils/geo.js';
+import { formatSingaporeTime } from './utils/sg-time.js';
+
+export interface BusTrackerQuery {
+  serviceNo?: string;
+  direction?: number;
+  /** Bus stop code or name the rider is waiting at */
+  busStop?: string;
+  limit?: number;
+}
+
+const MAX_SAMPLED_STOPS = 8;
+const SAMPLE_CONCURRENCY = 4;
+const ARRIVAL_CACHE_MS = 20_000;
+const NEAR_STOP_METERS = 100;
+// How far apart two stops' GPS fixes of the same bus can be, given the
+// responses are fetched (or cached) up to ARRIVAL_CACHE_MS apart
+const MATCH_DISTANCE_METERS = 500;
+// Allowance for a bus reaching the later of two stops slightly "earlier" in
+// responses fetched at different moments
+const MATCH_ETA_SLACK_MS = 60_000;
+const DEFAULT_LIMIT = 3;
+const MAX_LIMIT = 5;
+const POSITION_NOTE = 'Positions are the last GPS fix reported in BusArrival and can lag by a minute or so. Buses are matched across stops by their order of arrival, and each is placed on the nearest stretch of its route before the first stop that reported it.';
+
+interface CacheEntry {
+  expiresAt: number;
+  response: Promise<BusArrivalResponse>;
+}
+
+const arrivalCache = new Map<string, CacheEntry>();
+
+/** One bus as reported in the arrivals at one sampled stop. */
+interface Sighting {
+  routeIndex: number;
+  arrivalMs: number;
+  bus: DecodedBus;
+}
+
+/**
+ * Arrivals of one service at a stop, shared between concurrent callers and
+ * reused for a few seconds. Failed requests are not cached.
+ */
+function fetchCachedArrivals(busStopCode: string, serviceNo: string, apiKey: string): Promise<BusArrivalResponse> {
+  const now = Date.now();
+  for (const [key, entry] of arrivalCache) {
+    if (now >= entry.expiresAt) {
+      arrivalCache.delete(key);
+    }
+  }
+
+  const key = `${apiKey}:${busStopCode}:${serviceNo}`;
+  const cached = arrivalCache.get(key);
+  if (cached) {
+    return cached.response;
+  }
+
+  const response = fetchBusArrivals(busStopCode, apiKey, serviceNo).catch((error) => {
+    if (arrivalCache.get(key)?.response === response) {
+      arrivalCache.delete(key);
+    }
+    throw error;
+  });
+  arrivalCache.set(key, { expiresAt: now + ARRIVAL_CACHE_MS, response });
+  return response;
+}
+
+/**
+ * Route indexes to query: every stop up to `lastIndex` if there are few
+ * enough, otherwise evenly spaced ones that always include the first and
+ * `lastIndex`.
+ */
+function sampleIndexes(lastIndex: number): number[] {
+  if (lastIndex < MAX_SAMPLED_STOPS) {
+    return Array.from({ length: lastIndex + 1 }, (_, index) => index);
+  }
+
+  const step = lastIndex / (MAX_SAMPLED_STOPS - 1);
+  return [...new Set(Array.from({ length: MAX_SAMPLED_STOPS }, (_, k) => Math.round(k * step)))];
+}
+
+function describeStop(row: BusRoute, stops: ReadonlyMap<string, BusStop>) {
+  return {
+    sequence: row.StopSequence,
+    busStopCode: row.BusStopCode,
+    description: stops.get(row.BusStopCode)?.Description ?? null,
+  };
+}
+
+function stopPoint(row: BusRoute, stops: ReadonlyMap<string, BusStop>) {
+  const stop = stops.get(row.BusStopCode);
+  return stop && stop.Latitude && stop.Longitude
+    ? { latitude: stop.Latitude, longitude: stop.Longitude }
+    : undefined;
+}
+
+/**
+ * Nearest route segment to a bus among those ending at or before
+ * `maxIndex`, as the segment's start index and how far along it the bus is.
+ */
+function placeOnRoute(
+  location: { latitude: number; longitude: number },
+  rows: BusRoute[],
+  stops: ReadonlyMap<string, BusStop>,
+  maxIndex: number,
+) {
+  let best: { index: number; fraction: number; distanceMeters: number } | undefined;
+  for (let index = 0; index < Math.min(maxIndex, rows.length - 1); index++) {
+    const start = stopPoint(rows[index], stops);
+    const end = stopPoint(rows[index + 1], stops);
+    if (!start || !end) {
+      continue;
+    }
+
+    const { distanceMeters, fraction } = distanceToSegment(location.latitude, location.longitude, start, end);
+    if (!best || distanceMeters < best.distanceMeters) {
+      best = { index, fraction, distanceMeters };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Whether the buses due at a later stop continue those due at an earlier
+ * one from `offset` on: each pair must reach the later stop no sooner than
+ * the earlier one and, where both have a GPS fix, be reported close together.
+ */
+function continuesFrom(earlier: Sighting[], later: Sighting[], offset: number): boolean {
+  for (let i = 0; i < earlier.length && offset + i < later.length; i++) {
+    const a = earlier[i];
+    const b = later[offset + i];
+    if (b.arrivalMs < a.arrivalMs - MATCH_ETA_SLACK_MS) {
+      return false;
+    }
+    if (a.bus.location && b.bus.location
+      && haversineMeters(a.bus.location.latitude, a.bus.location.longitude, b.bus.location.latitude, b.bus.location.longitude) > MATCH_DISTANCE_METERS) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Follow buses across the sampled stops, given the buses due at each in
+ * route order. A stop's buses are those that passed the previous sampled
+ * stop followed by the ones still due there, so the previous stop's list
+ * lines up with the tail of this one; the earliest offset where it does is
+ * taken. Returns each bus's sightings, first stop first.
+ */
+function matchBuses(dueByStop: Sighting[][]): Sighting[][] {
+  const buses: Sighting[][] = [];
+  let previous: Sighting[][] = [];
+  for (const due of dueByStop) {
+    let offset = 0;
+    while (offset < due.length && !continuesFrom(previous.map((bus) => bus[bus.length - 1]), due, offset)) {
+      offset++;
+    }
+
+    previous = due.map((sighting, index) => {
+      const bus = (index >= offset && previous[index - offset]) || [];
+      if (bus.length === 0) {
+        buses.push(bus);
+      }
+      bus.push(sighting);
+      return bus;
+    });
+  }
+
+  return buses;
+}
+
+/**
+ * Where the next buses of a service are along one direction of its route.
+ * With a bus stop, the stops leading up to it are queried and buses are
+ * ordered by how soon they reach it; otherwise stops across the whole route
+ * are queried and buses are ordered from the furthest along.
+ */
+export async function trackBusService(query: BusTrackerQuery, apiKey: string) {
+  const serviceNo = query.serviceNo?.trim() ? normalizeServiceNo(query.serviceNo) : undefined;
+  if (!serviceNo) {
+    throw new Error('Provide a bus service number');
+  }
+  if (query.direction !== undefined && query.direction !== 1 && query.direction !== 2) {
+    throw new Error('direction must be 1 or 2');
+  }
+
+  const [index, stops] = await Promise.all([getBusRouteIndex(apiKey), getBusStopDirectory(apiKey)]);
+  const stopQuery = query.busStop?.trim();
+  let stop: BusStop | undefined;
+  let direction = query.direction ?? 1;
+  if (stopQuery) {
+    [stop] = await resolveBusStops(stopQuery, apiKey, 1);
+    if (!stop) {
+      throw new Error(`No bus stop found matching "${stopQuery}"`);
+    }
+
+    const calls = (index.byStop.get(stop.BusStopCode) ?? [])
+      .filter((row) => normalizeServiceNo(row.ServiceNo) === serviceNo
+        && (query.direction === undefined || row.Direction === query.direction));
+    if (calls.length === 0) {
+      throw new Error(`Bus service ${serviceNo}${query.direction ? ` direction ${query.direction}` : ''} does not call at ${stop.BusStopCode} (${stop.Description})`);
+    }
+    direction = calls[0].Direction;
+  }
+
+  const rows = index.byServiceDirection.get(routeKey(serviceNo, direction)) ?? [];
+  if (rows.length === 0) {
+    throw new Error(`No route found for bus service ${serviceNo} direction ${direction}`);
+  }
+
+  // Loop services can call at a stop twice; the first call is the one ahead
+  const stopIndex = stop ? rows.findIndex((row) => row.BusStopCode === stop.BusStopCode) : -1;
+  const sampled = sampleIndexes(stop ? stopIndex : rows.length - 1);
+
+  const results = await mapWithConcurrency(sampled, SAMPLE_CONCURRENCY, async (routeIndex) => {
+    try {
+      return { routeIndex, response: await fetchCachedArrivals(rows[routeIndex].BusStopCode, serviceNo, apiKey) };
+    } catch (error) {
+      return { routeIndex, error };
+    }
+  });
+  const failed = results.filter((result) => 'error' in result);
+  if (failed.length === results.length) {
+    throw failed[0].error;
+  }
+
+  const now = Date.now();
+  const dueByStop = results.flatMap((result) => {
+    if (!('response' in result) || !result.response) {
+      return [];
+    }
+
+    const service = result.response.Services.find((entry) => normalizeServiceNo(entry.ServiceNo) === serviceNo);
+    return [(service ? [service.NextBus, service.NextBus2, service.NextBus3] : []).flatMap((slot) => {
+      const bus = decodeNextBus(slot, stops, now);
+      return bus ? [{ routeIndex: result.routeIndex, arrivalMs: Date.parse(slot.EstimatedArrival), bus }] : [];
+    })];
+  });
+
+  let withoutLocation = 0;
+  const buses = matchBuses(dueByStop)
+    .flatMap((sightings) => {
+      const located = sightings.find((sighting) => sighting.bus.location);
+      const location = located?.bus.location;
+      if (!located || !location) {
+        withoutLocation++;
+        return [];
+      }
+
+      const { bus } = located;
+      const atStop = sightings.find((sighting) => sighting.routeIndex === stopIndex)?.bus;
+      const placed = placeOnRoute(location, rows, stops, Math.max(sightings[0].routeIndex, 1));
+      const segment = placed && { ...placed, from: rows[placed.index], to: rows[placed.index + 1] };
+      const nearStop = segment && [segment.from, segment.to]
+        .map((row) => {
+          const point = stopPoint(row, stops);
+          return { row, meters: point ? haversineMeters(location.latitude, location.longitude, point.latitude, point.longitude) : Infinity };
+        })
+        .filter(({ meters }) => meters <= NEAR_STOP_METERS)
+        .sort((a, b) => a.meters - b.meters)[0]?.row;
+      const distanceAlongRouteKm = segment && segment.from.Distance !== null && segment.to.Distance !== null
+        ? Math.round((segment.from.Distance + segment.fraction * (segment.to.Distance - segment.from.Distance)) * 10) / 10
+        : null;
+      const stopsAway = stop && segment ? stopIndex - segment.index : null;
+
+      return [{
+        progress: segment ? segment.index + segment.fraction : -1,
+        stopsAway,
+        minutesAway: atStop?.minutesAway ?? null,
+        entry: {
+          location,
+          position: segment
+            ? {
+              between: { from: describeStop(segment.from, stops), to: describeStop(segment.to, stops) },
+              nearStop: nearStop ? describeStop(nearStop, stops) : null,
+              distanceAlongRouteKm,
+              distanceFromRouteMeters: Math.round(segment.distanceMeters),
+            }
+            : null,
+          ...(stop && {
+            stopsAway,
+            minutesAway: atStop?.minutesAway ?? null,
+            estimatedArrival: atStop?.estimatedArrival ?? null,
+          }),
+          load: bus.load,
+          busType: bus.busType,
+          wheelchairAccessible: bus.wheelchairAccessible,
+          monitored: bus.monitored,
+        },
+      }];
+    })
+    .sort((a, b) => (stop
+      ? (a.minutesAway ?? Number.MAX_SAFE_INTEGER) - (b.minutesAway ?? Number.MAX_SAFE_INTEGER)
+        || (a.stopsAway ?? Number.MAX_SAFE_INTEGER) - (b.stopsAway ?? Number.MAX_SAFE_INTEGER)
+      : b.progress - a.progress))
+    .slice(0, normalizeLimit(query.limit, DEFAULT_LIMIT, MAX_LIMIT))
+    .map(({ entry }) => entry);
+
+  const first = rows[0];
+  const last = rows[rows.length - 1];
+  return {
+    serviceNo: first.ServiceNo,
+    direction,
+    operator: first.Operator,
+    route: { from: describeStop(first, stops), to: describeStop(last, stops) },
+    ...(stop && {
+      busStop: {
+        busStopCode: stop.BusStopCode,
+        description: stop.Description,
+        roadName: stop.RoadName,
+        sequence: rows[stopIndex].StopSequence,
+      },
+    }),
+    queriedAt: formatSingaporeTime(now),
+    stopsQueried: results.length,
+    ...(failed.length > 0 && { stopsFailed: failed.map((result) => rows[result.routeIndex].BusStopCode) }),
+    buses,
+    ...(withoutLocation > 0 && { busesWithoutLocation: withoutLocation }),
+    note: buses.length === 0
+      ? 'No buses with a live position were reported along the route. The service may have ended for the day or not started yet.'
+      : POSITION_NOTE,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Carpark availability — filters the island-wide CarParkAvailabilityv2
+ * dataset (HDB, LTA and URA carparks, one row per carpark per lot type)
+ * down to something a model can read: by agency, lot type, area,
+ * development name, minimum free lots and distance from a point.
+ */
+
+import { DATAMALL_BASE_URL, fetchAllPages } from './utils/datamall-client.js';
+import { matchesText, normalizeLimit, normalizeRadius, toPoint } from './utils/filters.js';
+import { haversineMeters } from './utils/geo.js';
+
+export interface CarparkAvailability {
+  CarParkID: string;
+  Area: string;
+  Development: string;
+  /** "lat lon", space separated */
+  Location: string;
+  AvailableLots: number;
+  LotType: string;
+  Agency: string;
+}
+
+export interface CarparkFilters {
+  agency?: string;
+  lotType?: string;
+  area?: string;
+  development?: string;
+  minAvailableLots?: number;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  limit?: number;
+}
+
+const LOT_TYPE_DESCRIPTIONS: Record<string, string> = {
+  C: 'Car',
+  H: 'Heavy vehicle',
+  Y: 'Motorcycle',
+};
+
+const DEFAULT_RADIUS_M = 1000;
+const MAX_RADIUS_M = 5000;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+function parseLocation(location: string): { latitude: number; longitude: number } | undefined {
+  const [latitude, longitude] = (location || '').trim().split(/\s+/).map(Number);
+  return toPoint(latitude, longitude);
+}
+
+/**
+ * Fetch every carpark availability record and apply the filters. With a
+ * coordinate, only carparks within the radius are kept, nearest first;
+ * otherwise results are ordered by available lots, most first.
+ */
+export async function getCarparkAvailability(filters: CarparkFilters, apiKey: string) {
+  const records = await fetchAllPages<CarparkAvailability>(`${DATAMALL_BASE_URL}/CarParkAvailabilityv2`, apiKey);
+
+  const origin = toPoint(filters.latitude, filters.longitude);
+  const radiusMeters = normalizeRadius(filters.radius, DEFAULT_RADIUS_M, MAX_RADIUS_M);
+  const limit = normalizeLimit(filters.limit, DEFAULT_LIMIT, MAX_LIMIT);
+  const agency = filters.agency?.trim().toUpperCase();
+  const lotType = filters.lotType?.trim().toUpperCase();
+  const minAvailableLots = typeof filters.minAvailableLots === 'number' ? filters.minAvailableLots : undefined;
+
+  const matches = records
+    .filter((record) => !agency || record.Agency?.toUpperCase() === agency)
+    .filter((record) => !lotType || record.LotType?.toUpperCase() === lotType)
+    .filter((record) => matchesText(record.Area, filters.area))
+    .filter((record) => matchesText(record.Development, filters.development))
+    .filter((record) => minAvailableLots === undefined || record.AvailableLots >= minAvailableLots)
+    .map((record) => {
+      const location = parseLocation(record.Location);
+      const distanceMeters = origin && location
+        ? Math.round(haversineMeters(origin.latitude, origin.longitude, location.latitude, location.longitude))
+        : undefined;
+
+      return {
+        carParkId: record.CarParkID,
+        development: record.Development,
+        area: record.Area || null,
+        agency: record.Agency,
+        lotType: LOT_TYPE_DESCRIPTIONS[record.LotType] ?? record.LotType,
+        availableLots: record.AvailableLots,
+        location: location ?? null,
+        ...(distanceMeters !== undefined && { distanceMeters }),
+      };
+    })
+    .filter((carpark) => !origin || (carpark.distanceMeters !== undefined && carpark.distanceMeters <= radiusMeters));
+
+  if (origin) {
+    matches.sort((a, b) => (a.distanceMeters ?? 0) - (b.distanceMeters ?? 0));
+  } else {
+    matches.sort((a, b) => b.availableLots - a.availableLots);
+  }
+
+  return {
+    totalMatched: matches.length,
+    ...(origin && { radiusMeters }),
+    carparks: matches.slice(0, limit),
+  };
+}
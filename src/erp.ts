@@ -0,0 +1,277 @@
+/**
+ * ERP rates — the ERPRates reference dataset, cached for 24 hours, and the
+ * charge a vehicle pays at a gantry at a given time.
+ *
+ * Each row is one rate band: a zone (gantry) ID, vehicle type, day type
+ * (Weekdays or Saturday), a start and end time and the charge, plus the date
+ * the rate took effect. Rates are revised by publishing rows with a later
+ * EffectiveDate, so for each zone, vehicle and day type only the latest set
+ * already in effect applies. Outside every band, and all day on Sundays and
+ * public holidays, the charge is zero.
+ *
+ * The documented fields have no gantry location, so gantries are found by
+ * zone ID. A Remarks column, where the feed carries one, is only used as an
+ * extra location description.
+ */
+
+import { DATAMALL_BASE_URL, fetchAllPages } from './utils/datamall-client.js';
+import { matchesText, normalizeLimit } from './utils/filters.js';
+import { createReferenceCache } from './utils/reference-cache.js';
+import { formatClockTime, formatSingaporeDate, parseClockTime, singaporeDateParts } from './utils/sg-time.js';
+
+export interface ErpRate {
+  VehicleType: string;
+  DayType: string;
+  StartTime: string;
+  EndTime: string;
+  ZoneID: string;
+  ChargeAmount: number;
+  EffectiveDate: string;
+  /** Not in the documented schema; used only if present. */
+  Remarks?: string;
+}
+
+export type ErpVehicleType =
+  | 'car'
+  | 'taxi'
+  | 'motorcycle'
+  | 'light_goods'
+  | 'heavy_goods'
+  | 'very_heavy_goods'
+  | 'small_bus'
+  | 'big_bus';
+
+export type ErpDayType = 'weekday' | 'saturday' | 'sunday';
+
+export interface ErpChargeQuery {
+  mode?: 'charge' | 'upcoming';
+  gantry?: string;
+  vehicleType?: ErpVehicleType;
+  dayType?: ErpDayType;
+  /** Singapore time, HH:MM */
+  time?: string;
+  withinMinutes?: number;
+  limit?: number;
+}
+
+// The VehicleType column lists several classes per row, e.g.
+// "Passenger Cars/Light Goods Vehicles/Taxis"
+const VEHICLE_CLASSES: Record<ErpVehicleType, string> = {
+  car: 'passenger cars',
+  taxi: 'taxis',
+  motorcycle: 'motorcycles',
+  light_goods: 'light goods vehicles',
+  heavy_goods: 'heavy goods vehicles',
+  very_heavy_goods: 'very heavy goods vehicles',
+  small_bus: 'small buses',
+  big_bus: 'big buses',
+};
+
+const DATASET_DAY_TYPES: Record<Exclude<ErpDayType, 'sunday'>, string> = {
+  weekday: 'weekdays',
+  saturday: 'saturday',
+};
+
+const DEFAULT_WITHIN_MINUTES = 30;
+const MAX_WITHIN_MINUTES = 180;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const NOT_OPERATING_NOTE = 'ERP does not operate on Sundays and public holidays. Public holidays are not detected; pass dayType "sunday" for them.';
+
+/**
+ * ERP rate rows grouped by upper-case zone ID.
+ */
+const erpRatesCache = createReferenceCache<Map<string, ErpRate[]>>({
+  name: 'ERP rates',
+  load: async (apiKey) => {
+    const rates = await fetchAllPages<ErpRate>(`${DATAMALL_BASE_URL}/ERPRates`, apiKey);
+    const byZone = new Map<string, ErpRate[]>();
+    for (const rate of rates) {
+      const zoneId = (rate.ZoneID ?? '').trim().toUpperCase();
+      if (!zoneId) {
+        continue;
+      }
+
+      const zoneRates = byZone.get(zoneId);
+      if (zoneRates) {
+        zoneRates.push(rate);
+      } else {
+        byZone.set(zoneId, [rate]);
+      }
+    }
+    return byZone;
+  },
+  describe: (byZone) => `ERP rates for ${byZone.size} zones`,
+});
+
+function formatCharge(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * True if the row's slash-separated vehicle type list includes the class.
+ */
+function matchesVehicle(rate: ErpRate, vehicleClass: string): boolean {
+  return (rate.VehicleType ?? '').toLowerCase().split('/').map((part) => part.trim()).includes(vehicleClass);
+}
+
+/**
+ * The rate bands that apply to one zone for a vehicle class and day type:
+ * those with the latest EffectiveDate on or before today, preferring rows
+ * that name fewer vehicle classes (a dedicated "Taxis" row wins over
+ * "Passenger Cars/Light Goods Vehicles/Taxis"). Sorted by start time.
+ */
+function applicableBands(zoneRates: ErpRate[], vehicleClass: string, dayType: string, today: string) {
+  const candidates = zoneRates.filter((rate) => matchesVehicle(rate, vehicleClass)
+    && (rate.DayType ?? '').trim().toLowerCase() === dayType
+    && (rate.EffectiveDate ?? '').slice(0, 10) <= today);
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const latest = candidates.reduce((max, rate) => ((rate.EffectiveDate ?? '') > max ? rate.EffectiveDate : max), '');
+  const current = candidates.filter((rate) => rate.EffectiveDate === latest);
+  const fewestClasses = Math.min(...current.map((rate) => rate.VehicleType.split('/').length));
+
+  return current
+    .filter((rate) => rate.VehicleType.split('/').length === fewestClasses)
+    .map((rate) => ({
+      start: parseClockTime(rate.StartTime) ?? 0,
+      end: parseClockTime(rate.EndTime) ?? 0,
+      charge: Number(rate.ChargeAmount) || 0,
+    }))
+    .filter((band) => band.end > band.start)
+    .sort((a, b) => a.start - b.start);
+}
+
+function chargeAt(bands: Array<{ start: number; end: number; charge: number }>, minutes: number) {
+  return bands.find((band) => band.start <= minutes && minutes < band.end);
+}
+
+/**
+ * Zones whose ID equals the gantry argument, or failing that, whose ID starts
+ * with it ("AY" for AY1, AYC...) or whose remarks, if any, contain it. No
+ * argument means all zones.
+ */
+function selectZones(byZone: Map<string, ErpRate[]>, gantry: string | undefined): Array<[string, ErpRate[]]> {
+  const wanted = gantry?.trim();
+  if (!wanted) {
+    return [...byZone.entries()];
+  }
+
+  const zoneId = wanted.toUpperCase();
+  const exact = byZone.get(zoneId);
+  if (exact) {
+    return [[zoneId, exact]];
+  }
+
+  return [...byZone.entries()].filter(([id, rates]) => id.startsWith(zoneId)
+    || rates.some((rate) => rate.Remarks?.trim() && matchesText(rate.Remarks, wanted)));
+}
+
+function zoneLocation(rates: ErpRate[]): string | undefined {
+  return rates.map((rate) => rate.Remarks?.trim()).find(Boolean);
+}
+
+/**
+ * The ERP charge at matching gantries for a vehicle, day type and time
+ * (default: now in Singapore), or in "upcoming" mode, every matching gantry
+ * whose charge changes within the next `withinMinutes`.
+ */
+export async function getErpCharge(query: ErpChargeQuery, apiKey: string) {
+  const vehicleType: ErpVehicleType = query.vehicleType ?? 'car';
+  const vehicleClass = VEHICLE_CLASSES[vehicleType];
+  if (!vehicleClass) {
+    throw new Error(`Unknown vehicleType "${query.vehicleType}". Use one of: ${Object.keys(VEHICLE_CLASSES).join(', ')}`);
+  }
+
+  const now = singaporeDateParts();
+  const dayType: ErpDayType = query.dayType
+    ?? (now.dayOfWeek === 0 ? 'sunday' : now.dayOfWeek === 6 ? 'saturday' : 'weekday');
+  if (!['weekday', 'saturday', 'sunday'].includes(dayType)) {
+    throw new Error('dayType must be weekday, saturday or sunday');
+  }
+
+  const time = query.time?.trim() ? parseClockTime(query.time) : now.hour * 60 + now.minute;
+  if (time === undefined) {
+    throw new Error('time must be in HH:MM format (24-hour, Singapore time)');
+  }
+
+  const mode = query.mode ?? 'charge';
+  const limit = normalizeLimit(query.limit, DEFAULT_LIMIT, MAX_LIMIT);
+  const today = formatSingaporeDate();
+  const byZone = await erpRatesCache.get(apiKey);
+  const zones = selectZones(byZone, query.gantry);
+  if (query.gantry?.trim() && zones.length === 0) {
+    throw new Error(`No ERP gantry matches "${query.gantry}"`);
+  }
+
+  const context = { vehicleType, dayType, time: formatClockTime(time) };
+  if (dayType === 'sunday') {
+    return { ...context, note: NOT_OPERATING_NOTE, gantries: [] };
+  }
+
+  const datasetDayType = DATASET_DAY_TYPES[dayType];
+  const zoneBands = zones.map(([zoneId, rates]) => ({
+    zoneId,
+    location: zoneLocation(rates),
+    bands: applicableBands(rates, vehicleClass, datasetDayType, today),
+  }));
+
+  if (mode === 'upcoming') {
+    const withinMinutes = normalizeLimit(query.withinMinutes, DEFAULT_WITHIN_MINUTES, MAX_WITHIN_MINUTES);
+    const windowEnd = time + withinMinutes;
+
+    const changes = zoneBands
+      .map(({ zoneId, location, bands }) => {
+        const currentCharge = chargeAt(bands, time)?.charge ?? 0;
+        const boundaries = [...new Set(bands.flatMap((band) => [band.start, band.end]))]
+          .filter((boundary) => boundary > time && boundary <= windowEnd)
+          .sort((a, b) => a - b);
+        const changeAt = boundaries.find((boundary) => (chargeAt(bands, boundary)?.charge ?? 0) !== currentCharge);
+        if (changeAt === undefined) {
+          return undefined;
+        }
+
+        const newCharge = chargeAt(bands, changeAt)?.charge ?? 0;
+        return {
+          zoneId,
+          ...(location && { location }),
+          currentCharge: formatCharge(currentCharge),
+          changesAt: formatClockTime(changeAt),
+          minutesUntilChange: changeAt - time,
+          newCharge: formatCharge(newCharge),
+          direction: newCharge > currentCharge ? 'up' : 'down',
+        };
+      })
+      .filter((change): change is NonNullable<typeof change> => change !== undefined)
+      .sort((a, b) => a.minutesUntilChange - b.minutesUntilChange || a.zoneId.localeCompare(b.zoneId));
+
+    return {
+      ...context,
+      withinMinutes,
+      totalMatched: changes.length,
+      gantries: changes.slice(0, limit),
+    };
+  }
+
+  const gantries = zoneBands
+    .map(({ zoneId, location, bands }) => {
+      const band = chargeAt(bands, time);
+      return {
+        zoneId,
+        ...(location && { location }),
+        charge: formatCharge(band?.charge ?? 0),
+        ...(band
+          ? { period: `${formatClockTime(band.start)}-${formatClockTime(band.end)}` }
+          : { note: 'Not in operation at this time' }),
+      };
+    })
+    .sort((a, b) => a.zoneId.localeCompare(b.zoneId));
+
+  return {
+    ...context,
+    totalMatched: gantries.length,
+    gantries: gantries.slice(0, limit),
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * EV charging points and their live availability.
+ *
+ * DataMall has two EV endpoints: EVChargingPoints returns the charging
+ * locations at one postal code, and EVCBatch returns a link to a file with
+ * every location island-wide. Postal code searches use the former; radius
+ * searches download the batch file, which is kept for 5 minutes (its own
+ * refresh interval) so repeated questions do not re-download it.
+ *
+ * Each location has charging points, each point one or more plug types with
+ * a power rating. Status codes are "1" available, "0" occupied and "100"
+ * not available.
+ */
+
+import axios from 'axios';
+import { DATAMALL_BASE_URL } from './utils/datamall-client.js';
+import { matchesText, normalizeLimit, normalizeRadius, toPoint } from './utils/filters.js';
+import { estimateWalk, haversineMeters, isValidCoordinate } from './utils/geo.js';
+import { createReferenceCache } from './utils/reference-cache.js';
+import { formatSingaporeTime } from './utils/sg-time.js';
+
+export interface EvPlugType {
+  plugType: string;
+  powerRating: string;
+  chargingSpeed?: number;
+  price?: number;
+  priceType?: string;
+}
+
+export interface EvChargingPoint {
+  id: string;
+  name?: string;
+  status: string;
+  operator?: string;
+  position?: string;
+  operatingHours?: string;
+  plugTypes?: EvPlugType[];
+}
+
+export interface EvLocation {
+  locationId: string;
+  name: string;
+  address: string;
+  latitude: number;
+  // DataMall's spelling
+  longtitude: number;
+  status: string;
+  chargingPoints?: EvChargingPoint[];
+}
+
+export interface EvChargingFilters {
+  postalCode?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  plugType?: string;
+  minPowerKw?: number;
+  availableOnly?: boolean;
+  limit?: number;
+}
+
+const DEFAULT_RADIUS_M = 2000;
+const MAX_RADIUS_M = 10000;
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+const BATCH_TTL_MS = 5 * 60 * 1000;
+
+const STATUS_DESCRIPTIONS: Record<string, string> = {
+  0: 'occupied',
+  1: 'available',
+  100: 'not available',
+};
+
+function describeStatus(status: string | undefined): string {
+  return STATUS_DESCRIPTIONS[status ?? ''] ?? 'unknown';
+}
+
+/**
+ * Power in kW from `chargingSpeed`, or parsed from a rating like "DC 50kW".
+ */
+function powerKw(plug: EvPlugType): number | null {
+  if (typeof plug.chargingSpeed === 'number' && plug.chargingSpeed > 0) {
+    return plug.chargingSpeed;
+  }
+
+  const match = /([\d.]+)\s*kW/i.exec(plug.powerRating ?? '');
+  return match ? Number(match[1]) : null;
+}
+
+function headers(apiKey: string) {
+  return { 'AccountKey': apiKey, 'accept': 'application/json' };
+}
+
+/**
+ * Every location island-wide, via the EVCBatch file link.
+ */
+const evBatchCache = createReferenceCache<{ fetchedAt: number; locations: EvLocation[] }>({
+  name: 'EV charging locations',
+  ttlMs: BATCH_TTL_MS,
+  load: async (apiKey) => {
+    const linkResponse = await axios.get(`${DATAMALL_BASE_URL}/EVCBatch`, { headers: headers(apiKey) });
+    const value = linkResponse.data?.value;
+    const link: string | undefined = Array.isArray(value) ? value[0]?.Link : value?.Link;
+    if (!link) {
+      throw new Error('EVCBatch did not return a download link');
+    }
+
+    const file = await axios.get(link);
+    return { fetchedAt: Date.now(), locations: file.data?.evLocationsData ?? file.data?.value?.evLocationsData ?? [] };
+  },
+  describe: (batch) => `${batch.locations.length} EV charging locations`,
+});
+
+async function fetchLocationsByPostalCode(postalCode: string, apiKey: string): Promise<EvLocation[]> {
+  const response = await axios.get(`${DATAMALL_BASE_URL}/EVChargingPoints`, {
+    params: { PostalCode: postalCode },
+    headers: headers(apiKey),
+  });
+
+  return response.data?.value?.evLocationsData ?? [];
+}
+
+/**
+ * The charging points of a location that pass the plug, power and
+ * availability filters, one entry per point and plug type.
+ */
+function matchingPoints(location: EvLocation, filters: EvChargingFilters) {
+  const minPowerKw = typeof filters.minPowerKw === 'number' && Number.isFinite(filters.minPowerKw) ? filters.minPowerKw : 0;
+
+  return (location.chargingPoints ?? []).flatMap((point) => (point.plugTypes?.length ? point.plugTypes : [undefined])
+    .map((plug) => ({
+      id: point.id,
+      ...(point.position && { position: point.position }),
+      ...(point.operator && { operator: point.operator }),
+      status: describeStatus(point.status),
+      plugType: plug?.plugType ?? null,
+      powerRating: plug?.powerRating ?? null,
+      powerKw: plug ? powerKw(plug) : null,
+      ...(plug?.price !== undefined && { price: `${plug.price}${plug.priceType ? ` ${plug.priceType}` : ''}` }),
+    }))
+    .filter((entry) => matchesText(entry.plugType, filters.plugType))
+    .filter((entry) => minPowerKw === 0 || (entry.powerKw ?? 0) >= minPowerKw)
+    .filter((entry) => !filters.availableOnly || entry.status === 'available'));
+}
+
+/**
+ * EV charging locations at a postal code, or within the radius of a point
+ * (nearest first), with each matching charging point and its live status.
+ */
+export async function getEvChargingPoints(filters: EvChargingFilters, apiKey: string) {
+  const postalCode = filters.postalCode?.trim();
+  const origin = toPoint(filters.latitude, filters.longitude);
+  const radiusMeters = normalizeRadius(filters.radius, DEFAULT_RADIUS_M, MAX_RADIUS_M);
+  const limit = normalizeLimit(filters.limit, DEFAULT_LIMIT, MAX_LIMIT);
+
+  if (postalCode && !/^\d{6}$/.test(postalCode)) {
+    throw new Error('postalCode must be a 6-digit Singapore postal code');
+  }
+  if (!postalCode && !origin) {
+    throw new Error('Provide a postalCode, or latitude and longitude');
+  }
+
+  let locations: EvLocation[];
+  let dataAsOf: number;
+  if (postalCode) {
+    locations = await fetchLocationsByPostalCode(postalCode, apiKey);
+    dataAsOf = Date.now();
+  } else {
+    const batch = await evBatchCache.get(apiKey);
+    locations = batch.locations;
+    dataAsOf = batch.fetchedAt;
+  }
+
+  const results = locations
+    .map((location) => {
+      const distanceMeters = origin && isValidCoordinate(location.latitude, location.longtitude)
+        ? haversineMeters(origin.latitude, origin.longitude, location.latitude, location.longtitude)
+        : undefined;
+      const points = matchingPoints(location, filters);
+
+      return {
+        name: location.name,
+        address: location.address,
+        latitude: location.latitude,
+        longitude: location.longtitude,
+        ...(distanceMeters !== undefined && { distanceMeters: Math.round(distanceMeters), ...estimateWalk(distanceMeters) }),
+        availablePoints: points.filter((point) => point.status === 'available').length,
+        matchingPoints: points.length,
+        points,
+      };
+    })
+    .filter((location) => location.points.length > 0)
+    .filter((location) => postalCode || !origin || (location.distanceMeters !== undefined && location.distanceMeters <= radiusMeters));
+
+  if (origin) {
+    results.sort((a, b) => (a.distanceMeters ?? 0) - (b.distanceMeters ?? 0));
+  }
+
+  return {
+    dataAsOf: formatSingaporeTime(dataAsOf),
+    ...(postalCode ? { postalCode } : { radiusMeters }),
+    totalMatched: results.length,
+    locations: results.slice(0, limit),
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * Faulty traffic lights — blackouts and flashing-yellow faults from the
+ * FaultyTrafficLights dataset, with proper start/end timestamps.
+ *
+ * The dataset has no coordinates; faults are located by the junction named in
+ * the message ("... at Road A/Road B Junc."). Where bus stops exist on both
+ * roads close to each other, the junction is placed midway between the
+ * nearest pair. Such locations are estimates, and faults that cannot be
+ * placed are left out of proximity searches.
+ */
+
+import { BusStop, getBusStopDirectory } from './bus-stops-cache.js';
+import { parseIncidentMessage } from './traffic-incidents.js';
+import { DATAMALL_BASE_URL, fetchAllPages } from './utils/datamall-client.js';
+import { matchesText, normalizeLimit, normalizeRadius, toPoint } from './utils/filters.js';
+import { haversineMeters, isValidCoordinate } from './utils/geo.js';
+import { formatSingaporeTime, fromSingaporeLocal } from './utils/sg-time.js';
+
+export interface FaultyTrafficLight {
+  AlarmID: string;
+  NodeID: string;
+  Type: number;
+  StartDate: string;
+  EndDate: string;
+  Message: string;
+}
+
+export interface FaultyTrafficLightFilters {
+  road?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  limit?: number;
+}
+
+const DEFAULT_RADIUS_M = 2000;
+const MAX_RADIUS_M = 20000;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+// Bus stops on the two roads must be this close for the junction to be placed
+const JUNCTION_MATCH_M = 400;
+
+const FAULT_TYPES: Record<number, string> = {
+  1: 'Blackout',
+  4: 'Flashing Yellow',
+};
+
+// Bus stop road names use LTA's abbreviations ("Bedok Nth St 1")
+const ROAD_ABBREVIATIONS: Record<string, string> = {
+  avenue: 'ave',
+  bukit: 'bt',
+  central: 'ctrl',
+  close: 'cl',
+  crescent: 'cres',
+  drive: 'dr',
+  industrial: 'ind',
+  jalan: 'jln',
+  kampong: 'kg',
+  lane: 'ln',
+  lorong: 'lor',
+  north: 'nth',
+  place: 'pl',
+  road: 'rd',
+  south: 'sth',
+  street: 'st',
+  tanjong: 'tg',
+  upper: 'upp',
+};
+
+const DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})/;
+
+function normalizeRoadName(roadName: string): string {
+  return roadName
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => ROAD_ABBREVIATIONS[word] ?? word)
+    .join(' ');
+}
+
+/**
+ * Parse a DataMall "YYYY-MM-DD HH:mm:ss.S" Singapore local time.
+ */
+function parseDateTime(value: string | undefined): number | undefined {
+  const match = DATE_TIME_PATTERN.exec(value?.trim() ?? '');
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  return fromSingaporeLocal(year, month, day, hour, minute);
+}
+
+/**
+ * The roads of the junction named after the last " at " of a description,
+ * e.g. "Flashing Yellow at Bedok North Ave 1/Bedok North Road Junc.".
+ */
+function junctionRoads(description: string): string[] {
+  const atIndex = description.toLowerCase().lastIndexOf(' at ');
+  if (atIndex < 0) {
+    return [];
+  }
+
+  return description
+    .slice(atIndex + 4)
+    .replace(/\s*(junc(tion)?\.?|\.)\s*$/i, '')
+    .split('/')
+    .map((road) => road.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Estimate a junction's location from the nearest pair of bus stops on two of
+ * its roads, if they are close enough to be the same junction.
+ */
+function locateJunction(roads: string[], stopsByRoad: Map<string, BusStop[]>): { latitude: number; longitude: number } | undefined {
+  const [first, second] = roads.map((road) => stopsByRoad.get(normalizeRoadName(road)) ?? []);
+  if (!first?.length || !second?.length) {
+    return undefined;
+  }
+
+  let best: { a: BusStop; b: BusStop; distance: number } | undefined;
+  for (const a of first) {
+    for (const b of second) {
+      const distance = haversineMeters(a.Latitude, a.Longitude, b.Latitude, b.Longitude);
+      if (!best || distance < best.distance) {
+        best = { a, b, distance };
+      }
+    }
+  }
+
+  if (!best || best.distance > JUNCTION_MATCH_M) {
+    return undefined;
+  }
+
+  return {
+    latitude: Math.round(((best.a.Latitude + best.b.Latitude) / 2) * 1e6) / 1e6,
+    longitude: Math.round(((best.a.Longitude + best.b.Longitude) / 2) * 1e6) / 1e6,
+  };
+}
+
+function groupStopsByRoad(stops: ReadonlyMap<string, BusStop>): Map<string, BusStop[]> {
+  const byRoad = new Map<string, BusStop[]>();
+  for (const stop of stops.values()) {
+    if (!isValidCoordinate(stop.Latitude, stop.Longitude)) {
+      continue;
+    }
+
+    const road = normalizeRoadName(stop.RoadName ?? '');
+    const roadStops = byRoad.get(road);
+    if (roadStops) {
+      roadStops.push(stop);
+    } else {
+      byRoad.set(road, [stop]);
+    }
+  }
+
+  return byRoad;
+}
+
+/**
+ * Current faulty traffic lights matching the road text and, with a
+ * coordinate, within the radius (nearest first). Otherwise the most recent
+ * faults come first.
+ */
+export async function getFaultyTrafficLights(filters: FaultyTrafficLightFilters, apiKey: string) {
+  const origin = toPoint(filters.latitude, filters.longitude);
+  const radiusMeters = normalizeRadius(filters.radius, DEFAULT_RADIUS_M, MAX_RADIUS_M);
+  const limit = normalizeLimit(filters.limit, DEFAULT_LIMIT, MAX_LIMIT);
+
+  const [records, stops] = await Promise.all([
+    fetchAllPages<FaultyTrafficLight>(`${DATAMALL_BASE_URL}/FaultyTrafficLights`, apiKey),
+    // Locations are a bonus unless the caller asked for a proximity search
+    origin ? getBusStopDirectory(apiKey) : getBusStopDirectory(apiKey).catch(() => new Map<string, BusStop>()),
+  ]);
+  const stopsByRoad = groupStopsByRoad(stops);
+  const now = Date.now();
+
+  const faults = records
+    .filter((fault) => matchesText(fault.Message, filters.road))
+    .map((fault) => {
+      const { reportedAt, description } = parseIncidentMessage(fault.Message, now);
+      const startMs = parseDateTime(fault.StartDate);
+      const endMs = parseDateTime(fault.EndDate);
+      const location = locateJunction(junctionRoads(description), stopsByRoad);
+      const status = startMs !== undefined && startMs > now
+        ? 'scheduled'
+        : endMs !== undefined && endMs <= now ? 'resolved' : 'ongoing';
+
+      return {
+        alarmId: fault.AlarmID,
+        nodeId: fault.NodeID,
+        type: FAULT_TYPES[fault.Type] ?? String(fault.Type),
+        description,
+        status,
+        startAt: startMs !== undefined ? formatSingaporeTime(startMs) : reportedAt,
+        endAt: endMs !== undefined ? formatSingaporeTime(endMs) : null,
+        location: location ? { ...location, estimated: true } : null,
+        ...(origin && location && {
+          distanceMeters: Math.round(haversineMeters(origin.latitude, origin.longitude, location.latitude, location.longitude)),
+        }),
+      };
+    })
+    .filter((fault) => !origin || (fault.distanceMeters !== undefined && fault.distanceMeters <= radiusMeters));
+
+  if (origin) {
+    faults.sort((a, b) => (a.distanceMeters ?? 0) - (b.distanceMeters ?? 0));
+  } else {
+    faults.sort((a, b) => (b.startAt ?? '').localeCompare(a.startAt ?? ''));
+  }
+
+  return {
+    totalMatched: faults.length,
+    ...(origin && { radiusMeters }),
+    faults: faults.slice(0, limit),
+  };
+}
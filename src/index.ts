@@ -10,7 +10,27 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import axios from "axios";
 import dotenv from "dotenv";
-import { searchBusStops } from "./bus-stops-cache.js";
+import { findNearbyBusStops, searchBusStops } from "./bus-stops-cache.js";
+import { getBusRoute, getBusServiceInfo } from "./bus-routes-cache.js";
+import { findBusesBetween, planBusJourney } from "./bus-journeys.js";
+import { getBusArrivals, getBusArrivalsForStops, StopArrivalRequest } from "./bus-arrivals.js";
+import { CarparkFilters, getCarparkAvailability } from "./carparks.js";
+import { getTravelTimes, TravelTimeFilters } from "./travel-times.js";
+import { getTrafficIncidents, TrafficIncidentFilters } from "./traffic-incidents.js";
+import { FaultyTrafficLightFilters, getFaultyTrafficLights } from "./faulty-traffic-lights.js";
+import { getTaxiAvailability, getTaxiStands, TaxiSearch } from "./taxis.js";
+import { getRoadOpenings, getRoadWorks, getVmsMessages, RoadEventFilters, VmsFilters } from "./road-events.js";
+import { getTrafficSpeedBands, TrafficSpeedBandFilters } from "./traffic-speed-bands.js";
+import { getTrafficCameras, TrafficCameraFilters } from "./traffic-cameras.js";
+import { BicycleParkingSearch, getBicycleParking } from "./bicycle-parking.js";
+import { EvChargingFilters, getEvChargingPoints } from "./ev-charging.js";
+import { ErpChargeQuery, getErpCharge } from "./erp.js";
+import { getPassengerDestinations, getPassengerVolume, PassengerDestinationQuery, PassengerVolumeQuery } from "./passenger-volume.js";
+import { getStationFacilitiesMaintenance, StationFacilitiesFilters } from "./station-facilities.js";
+import { BestTimeQuery, getBestTimeToTravel, getStationCrowdForecast, getStationCrowding, StationCrowdQuery } from "./station-crowding.js";
+import { getTrainAlerts, TrainAlertQuery } from "./train-alerts.js";
+import { BusTimingsQuery, getBusTimings } from "./bus-timings.js";
+import { BusTrackerQuery, trackBusService } from "./bus-tracker.js";
 
 // Load environment variables
 dotenv.config();
@@ -40,7 +60,7 @@ export function createServer() {
     return {
       tools: [{
         name: "bus_arrival",
-        description: "Get real-time bus arrival information for a specific bus stop and optionally a specific service number. Returns estimated arrival times, bus locations, and crowding levels.",
+        description: "Get real-time bus arrival information for a specific bus stop and optionally a specific service number. Returns the stop name and, for the next three buses of each service, minutes away (Singapore time), crowding level, bus type, wheelchair accessibility, bus location, and whether the estimate is from live GPS (monitored) or the schedule.",
         inputSchema: {
           type: "object",
           properties: {
@@ -58,64 +78,259 @@ export function createServer() {
       },
       {
         name: "station_crowding",
-        description: "Get real-time MRT/LRT station crowdedness level for a particular train network line. Updates every 10 minutes.",
+        description: "Get the current crowd level at an MRT/LRT station by name or code (e.g. \"Dhoby Ghaut\", \"NE6\"), across every line of an interchange, or at every station on a train line. Updates every 10 minutes.",
         inputSchema: {
           type: "object",
           properties: {
+            station: {
+              type: "string",
+              description: "Station name or code (e.g. \"Dhoby Ghaut\", \"Bishan\", \"NS24\")"
+            },
             trainLine: {
               type: "string",
-              description: "Code of train network line (CCL, CEL, CGL, DTL, EWL, NEL, NSL, BPL, SLRT, PLRT, TEL)",
+              description: "Code of train network line (CCL, CEL, CGL, DTL, EWL, NEL, NSL, BPL, SLRT, PLRT, TEL). With station, only that line's platforms.",
               enum: ["CCL", "CEL", "CGL", "DTL", "EWL", "NEL", "NSL", "BPL", "SLRT", "PLRT", "TEL"]
             }
-          },
-          required: ["trainLine"]
+          }
         }
       },
       {
         name: "train_alerts",
-        description: "Get real-time train service alerts including service disruptions and shuttle services. Updates when there are changes.",
+        description: "Get the current train service status of every MRT/LRT line: affected direction and stations, free bus and shuttle bridging, and operator messages. Each response has a cursor; pass it back as since to see what changed since that check.",
         inputSchema: {
           type: "object",
-          properties: {}
+          properties: {
+            since: {
+              type: "string",
+              description: "Cursor from an earlier train_alerts response, or an ISO 8601 time, to also return the changes since then"
+            }
+          }
         }
       },
       {
         name: "carpark_availability",
-        description: "Get real-time availability of parking lots for HDB, LTA, and URA carparks. Updates every minute.",
+        description: "Get real-time availability of parking lots for HDB, LTA, and URA carparks. Updates every minute. Filter by agency, lot type, area, development name, minimum free lots, or distance from a location (nearest first). Without a location, carparks with the most free lots come first.",
         inputSchema: {
           type: "object",
-          properties: {}
+          properties: {
+            agency: {
+              type: "string",
+              description: "Carpark operator",
+              enum: ["HDB", "LTA", "URA"]
+            },
+            lotType: {
+              type: "string",
+              description: "Lot type: C (car), H (heavy vehicle), Y (motorcycle)",
+              enum: ["C", "H", "Y"]
+            },
+            area: {
+              type: "string",
+              description: "Area name to match (e.g. \"Orchard\", \"Marina\")"
+            },
+            development: {
+              type: "string",
+              description: "Text to match in the development/carpark name (e.g. \"Plaza Singapura\")"
+            },
+            minAvailableLots: {
+              type: "number",
+              description: "Only return carparks with at least this many free lots"
+            },
+            latitude: {
+              type: "number",
+              description: "Latitude to search around"
+            },
+            longitude: {
+              type: "number",
+              description: "Longitude to search around"
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in metres when latitude/longitude are given (default: 1000, max: 5000)"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of carparks to return (default: 20, max: 100)"
+            }
+          }
         }
       },
       {
         name: "travel_times",
-        description: "Get estimated travel times on expressway segments. Updates every 5 minutes.",
+        description: "Get estimated travel times on expressway segments. Updates every 5 minutes. Filter by expressway, direction and start/end point names, or use summary mode to get the total time between two named points on one expressway (e.g. PIE from Jurong to Changi).",
         inputSchema: {
           type: "object",
-          properties: {}
+          properties: {
+            expressway: {
+              type: "string",
+              description: "Expressway code (AYE, BKE, CTE, ECP, KJE, KPE, MCE, PIE, SLE, TPE)"
+            },
+            direction: {
+              type: "number",
+              description: "Direction of travel (1 or 2)",
+              enum: [1, 2]
+            },
+            startPoint: {
+              type: "string",
+              description: "Text to match in the segment start point (summary mode: the point to travel from)"
+            },
+            endPoint: {
+              type: "string",
+              description: "Text to match in the segment end point (summary mode: the point to travel to, or the far end of the expressway)"
+            },
+            mode: {
+              type: "string",
+              description: "\"segments\" lists matching segments (default); \"summary\" sums the segments from startPoint to endPoint",
+              enum: ["segments", "summary"]
+            }
+          }
         }
       },
       {
         name: "traffic_incidents",
-        description: "Get current road incidents including accidents, roadworks, and heavy traffic. Updates every 2 minutes.",
+        description: "Get current road incidents including accidents, roadworks, and heavy traffic. Updates every 2 minutes. Filter by incident type, by area (bounding box, or latitude/longitude with a radius, nearest first) and by road name text in the message. Each incident includes the time it was reported, parsed from the message.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            type: {
+              type: "string",
+              description: "Incident type",
+              enum: ["Accident", "Roadwork", "Vehicle breakdown", "Weather", "Obstacle", "Road Block", "Heavy Traffic", "Misc.", "Diversion", "Unattended Vehicle", "Fire", "Plant Failure", "Reverse Flow"]
+            },
+            road: {
+              type: "string",
+              description: "Text to match in the incident message, e.g. a road or expressway name (\"PIE\", \"Bukit Timah Road\")"
+            },
+            latitude: {
+              type: "number",
+              description: "Latitude to search around"
+            },
+            longitude: {
+              type: "number",
+              description: "Longitude to search around"
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in metres when latitude/longitude are given (default: 2000, max: 20000)"
+            },
+            minLatitude: {
+              type: "number",
+              description: "Bounding box south edge"
+            },
+            maxLatitude: {
+              type: "number",
+              description: "Bounding box north edge"
+            },
+            minLongitude: {
+              type: "number",
+              description: "Bounding box west edge"
+            },
+            maxLongitude: {
+              type: "number",
+              description: "Bounding box east edge"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of incidents to return (default: 50, max: 200)"
+            }
+          }
+        }
+      },
+      {
+        name: "faulty_traffic_lights",
+        description: "Get traffic lights that are currently faulty (blackout or flashing yellow), including scheduled maintenance, with start and end timestamps. Filter by road name text and by distance from a location (nearest first). Locations are estimated from the junction named in the message and may be missing.",
         inputSchema: {
           type: "object",
-          properties: {}
+          properties: {
+            road: {
+              type: "string",
+              description: "Text to match in the fault message, e.g. a road or junction name (\"Bedok North\")"
+            },
+            latitude: {
+              type: "number",
+              description: "Latitude to search around"
+            },
+            longitude: {
+              type: "number",
+              description: "Longitude to search around"
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in metres when latitude/longitude are given (default: 2000, max: 20000)"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of faults to return (default: 50, max: 200)"
+            }
+          }
         }
       },
       {
         name: "station_crowd_forecast",
-        description: "Get forecasted MRT/LRT station crowdedness levels in 30-minute intervals.",
+        description: "Get the forecast crowd level in 30-minute intervals at an MRT/LRT station by name or code (e.g. \"Dhoby Ghaut\"), across every line of an interchange, or at every station on a train line.",
         inputSchema: {
           type: "object",
           properties: {
+            station: {
+              type: "string",
+              description: "Station name or code (e.g. \"Dhoby Ghaut\", \"Bishan\", \"NS24\")"
+            },
             trainLine: {
               type: "string",
-              description: "Code of train network line (CCL, CEL, CGL, DTL, EWL, NEL, NSL, BPL, SLRT, PLRT, TEL)",
+              description: "Code of train network line (CCL, CEL, CGL, DTL, EWL, NEL, NSL, BPL, SLRT, PLRT, TEL). With station, only that line's platforms.",
               enum: ["CCL", "CEL", "CGL", "DTL", "EWL", "NEL", "NSL", "BPL", "SLRT", "PLRT", "TEL"]
             }
-          },
-          required: ["trainLine"]
+          }
+        }
+      },
+      {
+        name: "best_time_to_travel",
+        description: "Find the least crowded 30-minute slots to travel by MRT/LRT within a time window today, at one station or for an origin and destination pair. Ranks the forecast crowd levels and explains each recommended slot.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            station: {
+              type: "string",
+              description: "Station name or code (e.g. \"Dhoby Ghaut\", \"NS24\"). Use instead of origin and destination."
+            },
+            origin: {
+              type: "string",
+              description: "Station to travel from (name or code)"
+            },
+            destination: {
+              type: "string",
+              description: "Station to travel to (name or code)"
+            },
+            from: {
+              type: "string",
+              description: "Window start in HH:MM, 24-hour Singapore time (default: now)"
+            },
+            to: {
+              type: "string",
+              description: "Window end in HH:MM, 24-hour Singapore time (default: three hours after from)"
+            },
+            limit: {
+              type: "number",
+              description: "Number of slots to recommend (default: 3, max: 10)"
+            }
+          }
+        }
+      },
+      {
+        name: "station_facilities_maintenance",
+        description: "Get MRT/LRT station lifts that are currently under maintenance, grouped by station. Filter by station code or name, or by train line. Stations not listed have all their lifts working.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            station: {
+              type: "string",
+              description: "Station code (e.g. \"NS17\") or name (e.g. \"Bishan\")"
+            },
+            trainLine: {
+              type: "string",
+              description: "Train line code",
+              enum: ["CCL", "CEL", "CGL", "DTL", "EWL", "NEL", "NSL", "BPL", "SLRT", "PLRT", "TEL"]
+            }
+          }
         }
       },
       {
@@ -135,71 +350,1136 @@ export function createServer() {
           },
           required: ["query"]
         }
-      }]
-    };
-  });
-
-  // Handle tool execution
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    switch (request.params.name) {
-      case "bus_arrival": {
-        const { busStopCode, serviceNo } = request.params.arguments as {
-          busStopCode: string;
-          serviceNo?: string;
-        };
-
-        try {
-          const response = await axios.get('https://datamall2.mytransport.sg/ltaodataservice/v3/BusArrival', {
-            params: {
-              BusStopCode: busStopCode,
-              ...(serviceNo && { ServiceNo: serviceNo })
-            },
-            headers: {
-              'AccountKey': ltaApiKey,
-              'accept': 'application/json'
+      },
+      {
+        name: "nearby_bus_stops",
+        description: "Find bus stops near a location, ordered by estimated walking distance. Anchor the search on a latitude/longitude or on an existing bus stop code. Returns stop codes, names, roads, straight-line and walking distances, and walking minutes.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            latitude: {
+              type: "number",
+              description: "Latitude of the location (e.g. 1.3048)"
+            },
+            longitude: {
+              type: "number",
+              description: "Longitude of the location (e.g. 103.8318)"
+            },
+            busStopCode: {
+              type: "string",
+              description: "Use this bus stop as the anchor instead of coordinates"
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in metres (default: 500, max: 2000)"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of results to return (default: 10, max: 20)"
+            }
+          }
+        }
+      },
+      {
+        name: "bus_service_info",
+        description: "Get reference information about a bus service: operator, category, origin and destination stops, loop point, and peak/off-peak frequencies for each direction.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceNo: {
+              type: "string",
+              description: "Bus service number (e.g. \"190\", \"NR1\")"
+            }
+          },
+          required: ["serviceNo"]
+        }
+      },
+      {
+        name: "bus_route",
+        description: "Get the ordered list of stops a bus service calls at, with stop names and cumulative route distance in km. Returns both directions unless one is specified.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceNo: {
+              type: "string",
+              description: "Bus service number (e.g. \"190\")"
+            },
+            direction: {
+              type: "number",
+              description: "Optional direction (1 or 2). Loop services only have direction 1.",
+              enum: [1, 2]
+            }
+          },
+          required: ["serviceNo"]
+        }
+      },
+      {
+        name: "bus_timings",
+        description: "Get the first and last bus times (weekday, Saturday, Sunday) of bus services at a stop, and whether the last bus can still be caught tonight at the current Singapore time. Use this when bus_arrival returns no buses to tell \"no more buses tonight\" from a problem.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            busStop: {
+              type: "string",
+              description: "Bus stop code (e.g. \"83139\") or name"
+            },
+            serviceNo: {
+              type: "string",
+              description: "Bus service number (default: every service at the stop)"
+            }
+          },
+          required: ["busStop"]
+        }
+      },
+      {
+        name: "buses_between",
+        description: "Find bus services that run directly from an origin to a destination without a transfer. Origin and destination can be 5-digit bus stop codes or stop names/landmarks. Returns each service with the boarding and alighting stops, number of stops and route distance, shortest ride first.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            origin: {
+              type: "string",
+              description: "Origin bus stop code or name (e.g. \"83139\", \"Marsiling Mall\")"
+            },
+            destination: {
+              type: "string",
+              description: "Destination bus stop code or name (e.g. \"Woodlands Int\")"
+            }
+          },
+          required: ["origin", "destination"]
+        }
+      },
+      {
+        name: "plan_bus_journey",
+        description: "Plan a bus journey between two places with at most one transfer, including short walks between nearby stops at the transfer point. Origin and destination can be 5-digit bus stop codes or stop names/landmarks. Returns the best itineraries with legs, stops, estimated ride times and any walking transfer; optionally re-ranks them by live bus arrivals.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            origin: {
+              type: "string",
+              description: "Origin bus stop code or name (e.g. \"83139\", \"Marsiling Mall\")"
+            },
+            destination: {
+              type: "string",
+              description: "Destination bus stop code or name (e.g. \"Changi Airport\")"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of itineraries to return (default: 5, max: 10)"
+            },
+            useLiveArrivals: {
+              type: "boolean",
+              description: "Rank itineraries by live bus arrival times instead of timetable estimates (makes extra API calls)"
+            }
+          },
+          required: ["origin", "destination"]
+        }
+      },
+      {
+        name: "bus_arrivals_multi",
+        description: "Get real-time bus arrivals at several bus stops in one call, e.g. both sides of a road or every stop at an interchange. Each stop can be filtered to specific services. Results use the same decoded format as bus_arrival; a failure at one stop is reported for that stop only.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            stops: {
+              type: "array",
+              description: "Bus stops to query (max 10)",
+              items: {
+                type: "object",
+                properties: {
+                  busStopCode: {
+                    type: "string",
+                    description: "The unique 5-digit bus stop code"
+                  },
+                  serviceNos: {
+                    type: "array",
+                    items: { type: "string" },
+                    description: "Optional bus service numbers to keep at this stop"
+                  }
+                },
+                required: ["busStopCode"]
+              }
+            }
+          },
+          required: ["stops"]
+        }
+      },
+      {
+        name: "track_bus_service",
+        description: "Show where the next buses of a service are right now along its route, from the live GPS positions in bus arrivals at several stops of the route. Give the stop you are waiting at to see how many stops away each bus is and when it arrives.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            serviceNo: {
+              type: "string",
+              description: "Bus service number (e.g. \"171\")"
+            },
+            direction: {
+              type: "number",
+              description: "Route direction (default: the direction calling at busStop, else 1)",
+              enum: [1, 2]
+            },
+            busStop: {
+              type: "string",
+              description: "Bus stop code or name you are waiting at (optional)"
+            },
+            limit: {
+              type: "number",
+              description: "Number of buses to return (default: 3, max: 5)"
+            }
+          },
+          required: ["serviceNo"]
+        }
+      },
+      {
+        name: "taxi_availability",
+        description: "Get how many taxis are currently available around a location, with the nearest few and their distance. Updates every minute.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            latitude: {
+              type: "number",
+              description: "Latitude of the location"
+            },
+            longitude: {
+              type: "number",
+              description: "Longitude of the location"
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in metres (default: 500, max: 5000)"
+            },
+            limit: {
+              type: "number",
+              description: "Number of nearest taxis to list (default: 5, max: 20)"
             }
-          });
-          
+          },
+          required: ["latitude", "longitude"]
+        }
+      },
+      {
+        name: "taxi_stands",
+        description: "Find taxi stands and taxi stops near a location, nearest first, with walking distance, type, ownership and barrier-free access.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            latitude: {
+              type: "number",
+              description: "Latitude of the location"
+            },
+            longitude: {
+              type: "number",
+              description: "Longitude of the location"
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in metres (default: 1000, max: 5000)"
+            },
+            limit: {
+              type: "number",
+              description: "Number of nearest stands to list (default: 5, max: 20)"
+            }
+          },
+          required: ["latitude", "longitude"]
+        }
+      },
+      {
+        name: "road_works",
+        description: "Get planned road works, with start and end dates, the road affected and the department in charge. Filter by a date window and road name; each event is marked upcoming, ongoing or completed. Use traffic_incidents for live incidents.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            road: {
+              type: "string",
+              description: "Text to match in the road name (e.g. \"Jalan Bukit Merah\")"
+            },
+            fromDate: {
+              type: "string",
+              description: "Only events still running on or after this date (YYYY-MM-DD)"
+            },
+            toDate: {
+              type: "string",
+              description: "Only events starting on or before this date (YYYY-MM-DD)"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of events to return (default: 50, max: 200)"
+            }
+          }
+        }
+      },
+      {
+        name: "road_openings",
+        description: "Get planned road openings (new roads or lanes opening), with start and end dates, the road and the department in charge. Filter by a date window and road name; each event is marked upcoming, ongoing or completed.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            road: {
+              type: "string",
+              description: "Text to match in the road name (e.g. \"Jalan Bukit Merah\")"
+            },
+            fromDate: {
+              type: "string",
+              description: "Only events still running on or after this date (YYYY-MM-DD)"
+            },
+            toDate: {
+              type: "string",
+              description: "Only events starting on or before this date (YYYY-MM-DD)"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of events to return (default: 50, max: 200)"
+            }
+          }
+        }
+      },
+      {
+        name: "vms_messages",
+        description: "Get the messages currently shown on expressway variable message signs (VMS), e.g. travel times, closures and incident warnings. Filter by text and by distance from a location (nearest first). Blank signs are omitted.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            text: {
+              type: "string",
+              description: "Text to match in the sign message (e.g. \"PIE\", \"accident\")"
+            },
+            latitude: {
+              type: "number",
+              description: "Latitude to search around"
+            },
+            longitude: {
+              type: "number",
+              description: "Longitude to search around"
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in metres when latitude/longitude are given (default: 5000, max: 30000)"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of signs to return (default: 50, max: 200)"
+            }
+          }
+        }
+      },
+      {
+        name: "traffic_speed_bands",
+        description: "Get current road congestion from LTA speed bands (1 = 0-9 km/h up to 8 = 70+ km/h), summarized per road: average band, congestion level and the slowest segments. Filter by road name and/or area (radius around a point or a bounding box). Most congested roads come first.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            road: {
+              type: "string",
+              description: "Text to match in the road name (e.g. \"PIE\", \"Bukit Timah Road\")"
+            },
+            latitude: {
+              type: "number",
+              description: "Latitude to search around"
+            },
+            longitude: {
+              type: "number",
+              description: "Longitude to search around"
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in metres when latitude/longitude are given (default: 2000, max: 20000)"
+            },
+            minLatitude: {
+              type: "number",
+              description: "Bounding box south edge"
+            },
+            maxLatitude: {
+              type: "number",
+              description: "Bounding box north edge"
+            },
+            minLongitude: {
+              type: "number",
+              description: "Bounding box west edge"
+            },
+            maxLongitude: {
+              type: "number",
+              description: "Bounding box east edge"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of roads to return (default: 20, max: 100)"
+            },
+            slowestSegments: {
+              type: "number",
+              description: "Slowest segments to list per road (default: 3, max: 10)"
+            }
+          }
+        }
+      },
+      {
+        name: "traffic_cameras",
+        description: "Get LTA traffic cameras with their locations and current image links. Filter by camera ID, by expressway, or by distance from a location (nearest first). Image links are signed and expire a few minutes after issue; each camera includes imageLinkExpiresAt.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            cameraId: {
+              type: "string",
+              description: "Return only this camera (e.g. \"1701\")"
+            },
+            expressway: {
+              type: "string",
+              description: "Only cameras on this expressway",
+              enum: ["AYE", "BKE", "CTE", "ECP", "KJE", "KPE", "MCE", "PIE", "SLE", "TPE"]
+            },
+            latitude: {
+              type: "number",
+              description: "Latitude to search around"
+            },
+            longitude: {
+              type: "number",
+              description: "Longitude to search around"
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in metres when latitude/longitude are given (default: 2000, max: 20000)"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of cameras to return (default: 10, max: 100)"
+            }
+          }
+        }
+      },
+      {
+        name: "bicycle_parking",
+        description: "Find bicycle parking near a location, nearest first, with rack type, number of racks, whether it is sheltered and walking distance. Give latitude/longitude, or a bus stop code or landmark name as query (resolved to the best-matching bus stop).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            latitude: {
+              type: "number",
+              description: "Latitude of the location (required unless query is given)"
+            },
+            longitude: {
+              type: "number",
+              description: "Longitude of the location (required unless query is given)"
+            },
+            query: {
+              type: "string",
+              description: "Bus stop code or landmark name to search around instead of coordinates (e.g. \"83139\", \"Bishan Stn\")"
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in metres (default: 500, max: 2000)"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of parking spots to return (default: 10, max: 50)"
+            }
+          }
+        }
+      },
+      {
+        name: "ev_charging_points",
+        description: "Find EV charging points by postal code or near a location (nearest first), with plug type, power rating and live availability (available, occupied, not available) for each point. Filter by plug type, minimum power (e.g. 50 kW for fast DC charging) or available points only.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            postalCode: {
+              type: "string",
+              description: "6-digit postal code to look up (e.g. \"018956\")"
+            },
+            latitude: {
+              type: "number",
+              description: "Latitude to search around (required unless postalCode is given)"
+            },
+            longitude: {
+              type: "number",
+              description: "Longitude to search around (required unless postalCode is given)"
+            },
+            radius: {
+              type: "number",
+              description: "Search radius in metres when latitude/longitude are given (default: 2000, max: 10000)"
+            },
+            plugType: {
+              type: "string",
+              description: "Text to match in the plug type (e.g. \"CCS2\", \"Type 2\")"
+            },
+            minPowerKw: {
+              type: "number",
+              description: "Only points rated at least this many kW (e.g. 50 for fast DC chargers)"
+            },
+            availableOnly: {
+              type: "boolean",
+              description: "Only points that are available right now (default: false)"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of locations to return (default: 5, max: 20)"
+            }
+          }
+        }
+      },
+      {
+        name: "erp_charge",
+        description: "Get the ERP (Electronic Road Pricing) charge at a gantry for a vehicle type, day type and time (default: now, Singapore time). Identify the gantry by zone ID (e.g. \"AY1\"), or give the start of one (e.g. \"AY\") to match several. In upcoming mode, lists every matching gantry whose charge changes within the next N minutes, with the new charge.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            mode: {
+              type: "string",
+              description: "charge (default): the charge at the given time; upcoming: gantries whose charge changes within withinMinutes",
+              enum: ["charge", "upcoming"]
+            },
+            gantry: {
+              type: "string",
+              description: "ERP zone ID (e.g. \"AY1\") or its start (e.g. \"AY\") to match several zones. Optional in upcoming mode."
+            },
+            vehicleType: {
+              type: "string",
+              description: "Vehicle type (default: car)",
+              enum: ["car", "taxi", "motorcycle", "light_goods", "heavy_goods", "very_heavy_goods", "small_bus", "big_bus"]
+            },
+            dayType: {
+              type: "string",
+              description: "Day type (default: today). Use sunday for public holidays.",
+              enum: ["weekday", "saturday", "sunday"]
+            },
+            time: {
+              type: "string",
+              description: "Time in HH:MM, 24-hour Singapore time (default: now)"
+            },
+            withinMinutes: {
+              type: "number",
+              description: "Upcoming mode: look-ahead window in minutes (default: 30, max: 180)"
+            },
+            limit: {
+              type: "number",
+              description: "Maximum number of gantries to return (default: 20, max: 100)"
+            }
+          }
+        }
+      },
+      {
+        name: "passenger_volume",
+        description: "Get monthly tap-in and tap-out totals at a bus stop or train station, and its busiest hours, for weekdays and weekends. Built from LTA passenger volume data (published monthly); the first question about a month downloads and processes the file, later ones are fast.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            transport: {
+              type: "string",
+              description: "bus for a bus stop, train for an MRT/LRT station",
+              enum: ["bus", "train"]
+            },
+            code: {
+              type: "string",
+              description: "Bus stop code or name (e.g. \"83139\"), or train station code (e.g. \"NS1\", \"EW24\")"
+            },
+            dayType: {
+              type: "string",
+              description: "Day type (default: both)",
+              enum: ["weekday", "weekend"]
+            },
+            month: {
+              type: "string",
+              description: "Month in YYYY-MM (default: latest published; DataMall keeps the last three months)"
+            },
+            limit: {
+              type: "number",
+              description: "Number of busiest hours to list (default: 3, max: 24)"
+            }
+          },
+          required: ["transport", "code"]
+        }
+      },
+      {
+        name: "passenger_destinations",
+        description: "Get the most common destinations of bus or train trips starting at a bus stop or station in a month, with trip counts, share of trips and the busiest departure hours, for weekdays and weekends. Built from LTA origin-destination passenger volume data (published monthly).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            transport: {
+              type: "string",
+              description: "bus for bus trips, train for MRT/LRT trips",
+              enum: ["bus", "train"]
+            },
+            origin: {
+              type: "string",
+              description: "Origin bus stop code or name, or train station code (e.g. \"NS1\")"
+            },
+            dayType: {
+              type: "string",
+              description: "Day type (default: both)",
+              enum: ["weekday", "weekend"]
+            },
+            month: {
+              type: "string",
+              description: "Month in YYYY-MM (default: latest published; DataMall keeps the last three months)"
+            },
+            limit: {
+              type: "number",
+              description: "Number of destinations to list (default: 10, max: 50)"
+            }
+          },
+          required: ["transport", "origin"]
+        }
+      }]
+    };
+  });
+
+  // Handle tool execution
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    switch (request.params.name) {
+      case "bus_arrival": {
+        const { busStopCode, serviceNo } = request.params.arguments as {
+          busStopCode: string;
+          serviceNo?: string;
+        };
+
+        try {
+          const arrivals = await getBusArrivals(busStopCode, ltaApiKey, serviceNo);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(arrivals, null, 2)
+            }]
+          };
+        } catch (error) {
+          if (axios.isAxiosError(error)) {
+            return {
+              content: [{
+                type: "text", 
+                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
+              }],
+              isError: true
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: `Bus arrival error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "station_crowding": {
+        try {
+          const result = await getStationCrowding((request.params.arguments ?? {}) as StationCrowdQuery, ltaApiKey);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          if (axios.isAxiosError(error)) {
+            return {
+              content: [{
+                type: "text",
+                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
+              }],
+              isError: true
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: `Station crowding error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "train_alerts": {
+        try {
+          const result = await getTrainAlerts((request.params.arguments ?? {}) as TrainAlertQuery, ltaApiKey);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          if (axios.isAxiosError(error)) {
+            return {
+              content: [{
+                type: "text",
+                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
+              }],
+              isError: true
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: `Train alerts error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "carpark_availability": {
+        try {
+          const result = await getCarparkAvailability((request.params.arguments ?? {}) as CarparkFilters, ltaApiKey);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          if (axios.isAxiosError(error)) {
+            return {
+              content: [{
+                type: "text",
+                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
+              }],
+              isError: true
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: `Carpark availability error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "travel_times": {
+        try {
+          const result = await getTravelTimes((request.params.arguments ?? {}) as TravelTimeFilters, ltaApiKey);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          if (axios.isAxiosError(error)) {
+            return {
+              content: [{
+                type: "text",
+                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
+              }],
+              isError: true
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: `Travel times error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "traffic_incidents": {
+        try {
+          const result = await getTrafficIncidents((request.params.arguments ?? {}) as TrafficIncidentFilters, ltaApiKey);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          if (axios.isAxiosError(error)) {
+            return {
+              content: [{
+                type: "text",
+                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
+              }],
+              isError: true
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: `Traffic incidents error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "faulty_traffic_lights": {
+        try {
+          const result = await getFaultyTrafficLights((request.params.arguments ?? {}) as FaultyTrafficLightFilters, ltaApiKey);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          if (axios.isAxiosError(error)) {
+            return {
+              content: [{
+                type: "text",
+                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
+              }],
+              isError: true
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: `Faulty traffic lights error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "station_crowd_forecast": {
+        try {
+          const result = await getStationCrowdForecast((request.params.arguments ?? {}) as StationCrowdQuery, ltaApiKey);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          if (axios.isAxiosError(error)) {
+            return {
+              content: [{
+                type: "text",
+                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
+              }],
+              isError: true
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: `Station crowd forecast error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "best_time_to_travel": {
+        try {
+          const result = await getBestTimeToTravel((request.params.arguments ?? {}) as BestTimeQuery, ltaApiKey);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          if (axios.isAxiosError(error)) {
+            return {
+              content: [{
+                type: "text",
+                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
+              }],
+              isError: true
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: `Best time to travel error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "station_facilities_maintenance": {
+        try {
+          const result = await getStationFacilitiesMaintenance((request.params.arguments ?? {}) as StationFacilitiesFilters, ltaApiKey);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          if (axios.isAxiosError(error)) {
+            return {
+              content: [{
+                type: "text",
+                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
+              }],
+              isError: true
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: `Station facilities maintenance error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "bus_stop_search": {
+        const { query, limit } = request.params.arguments as {
+          query: string;
+          limit?: number;
+        };
+        const maxResults = typeof limit === 'number' && Number.isFinite(limit)
+          ? Math.max(0, Math.min(Math.floor(limit), 20))
+          : 10;
+        try {
+          const results = await searchBusStops(query, ltaApiKey, maxResults);
+          if (results.length === 0) {
+            return {
+              content: [{
+                type: "text",
+                text: `No bus stops found matching "${query}"`
+              }]
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(results, null, 2)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `Bus stop search error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "nearby_bus_stops": {
+        const { latitude, longitude, busStopCode, radius, limit } = request.params.arguments as {
+          latitude?: number;
+          longitude?: number;
+          busStopCode?: string;
+          radius?: number;
+          limit?: number;
+        };
+        try {
+          const result = await findNearbyBusStops({ latitude, longitude, busStopCode }, ltaApiKey, radius, limit);
+          if (result.stops.length === 0) {
+            return {
+              content: [{
+                type: "text",
+                text: `No bus stops found within ${result.radiusMeters}m`
+              }]
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `Nearby bus stops error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "bus_service_info": {
+        const { serviceNo } = request.params.arguments as {
+          serviceNo: string;
+        };
+        try {
+          const results = await getBusServiceInfo(serviceNo, ltaApiKey);
+          if (results.length === 0) {
+            return {
+              content: [{
+                type: "text",
+                text: `No bus service found with number "${serviceNo}"`
+              }]
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(results, null, 2)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `Bus service info error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "bus_route": {
+        const { serviceNo, direction } = request.params.arguments as {
+          serviceNo: string;
+          direction?: number;
+        };
+        try {
+          const results = await getBusRoute(serviceNo, ltaApiKey, direction);
+          if (results.length === 0) {
+            return {
+              content: [{
+                type: "text",
+                text: `No route found for bus service "${serviceNo}"${direction ? ` direction ${direction}` : ''}`
+              }]
+            };
+          }
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(results, null, 2)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `Bus route error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "bus_timings": {
+        try {
+          const result = await getBusTimings((request.params.arguments ?? {}) as BusTimingsQuery, ltaApiKey);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `Bus timings error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "buses_between": {
+        const { origin, destination } = request.params.arguments as {
+          origin: string;
+          destination: string;
+        };
+        try {
+          const result = await findBusesBetween(origin, destination, ltaApiKey);
+          if (result.services.length === 0) {
+            return {
+              content: [{
+                type: "text",
+                text: `No direct bus service found from "${origin}" to "${destination}"\n${JSON.stringify(result, null, 2)}`
+              }]
+            };
+          }
           return {
             content: [{
               type: "text",
-              text: JSON.stringify(response.data, null, 2)
+              text: JSON.stringify(result, null, 2)
             }]
           };
         } catch (error) {
-          if (axios.isAxiosError(error)) {
+          return {
+            content: [{
+              type: "text",
+              text: `Buses between error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "plan_bus_journey": {
+        const { origin, destination, limit, useLiveArrivals } = request.params.arguments as {
+          origin: string;
+          destination: string;
+          limit?: number;
+          useLiveArrivals?: boolean;
+        };
+        try {
+          const result = await planBusJourney(origin, destination, ltaApiKey, { limit, useLiveArrivals });
+          if (result.itineraries.length === 0) {
             return {
               content: [{
-                type: "text", 
-                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
-              }],
-              isError: true
+                type: "text",
+                text: `No bus journey with at most one transfer found from "${origin}" to "${destination}"\n${JSON.stringify(result, null, 2)}`
+              }]
             };
           }
-          throw error;
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `Journey planner error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
         }
       }
 
-      case "station_crowding": {
-        const { trainLine } = request.params.arguments as {
-          trainLine: string;
+      case "bus_arrivals_multi": {
+        const { stops } = request.params.arguments as {
+          stops: StopArrivalRequest[];
         };
+        try {
+          const result = await getBusArrivalsForStops(stops ?? [], ltaApiKey);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `Bus arrivals error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
 
+      case "track_bus_service": {
         try {
-          const response = await axios.get('https://datamall2.mytransport.sg/ltaodataservice/PCDRealTime', {
-            params: {
-              TrainLine: trainLine
-            },
-            headers: {
-              'AccountKey': ltaApiKey,
-              'accept': 'application/json'
-            }
-          });
-          
+          const result = await trackBusService((request.params.arguments ?? {}) as BusTrackerQuery, ltaApiKey);
+
           return {
             content: [{
               type: "text",
-              text: JSON.stringify(response.data, null, 2)
+              text: JSON.stringify(result, null, 2)
             }]
           };
         } catch (error) {
@@ -212,191 +1492,250 @@ export function createServer() {
               isError: true
             };
           }
-          throw error;
+          return {
+            content: [{
+              type: "text",
+              text: `Bus tracker error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
         }
       }
 
-      case "train_alerts": {
+      case "taxi_availability": {
         try {
-          const response = await axios.get('https://datamall2.mytransport.sg/ltaodataservice/TrainServiceAlerts', {
-            headers: {
-              'AccountKey': ltaApiKey,
-              'accept': 'application/json'
-            }
-          });
-          
+          const result = await getTaxiAvailability((request.params.arguments ?? {}) as TaxiSearch, ltaApiKey);
           return {
             content: [{
               type: "text",
-              text: JSON.stringify(response.data, null, 2)
+              text: JSON.stringify(result, null, 2)
             }]
           };
         } catch (error) {
-          if (axios.isAxiosError(error)) {
-            return {
-              content: [{
-                type: "text",
-                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
-              }],
-              isError: true
-            };
-          }
-          throw error;
+          return {
+            content: [{
+              type: "text",
+              text: `Taxi availability error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
         }
       }
 
-      case "carpark_availability": {
+      case "taxi_stands": {
         try {
-          const response = await axios.get('https://datamall2.mytransport.sg/ltaodataservice/CarParkAvailabilityv2', {
-            headers: {
-              'AccountKey': ltaApiKey,
-              'accept': 'application/json'
-            }
-          });
-          
+          const result = await getTaxiStands((request.params.arguments ?? {}) as TaxiSearch, ltaApiKey);
           return {
             content: [{
               type: "text",
-              text: JSON.stringify(response.data, null, 2)
+              text: JSON.stringify(result, null, 2)
             }]
           };
         } catch (error) {
-          if (axios.isAxiosError(error)) {
-            return {
-              content: [{
-                type: "text",
-                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
-              }],
-              isError: true
-            };
-          }
-          throw error;
+          return {
+            content: [{
+              type: "text",
+              text: `Taxi stands error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
         }
       }
 
-      case "travel_times": {
+      case "road_works": {
         try {
-          const response = await axios.get('https://datamall2.mytransport.sg/ltaodataservice/EstTravelTimes', {
-            headers: {
-              'AccountKey': ltaApiKey,
-              'accept': 'application/json'
-            }
-          });
-          
+          const result = await getRoadWorks((request.params.arguments ?? {}) as RoadEventFilters, ltaApiKey);
           return {
             content: [{
               type: "text",
-              text: JSON.stringify(response.data, null, 2)
+              text: JSON.stringify(result, null, 2)
             }]
           };
         } catch (error) {
-          if (axios.isAxiosError(error)) {
-            return {
-              content: [{
-                type: "text",
-                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
-              }],
-              isError: true
-            };
-          }
-          throw error;
+          return {
+            content: [{
+              type: "text",
+              text: `Road works error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
         }
       }
 
-      case "traffic_incidents": {
+      case "road_openings": {
         try {
-          const response = await axios.get('https://datamall2.mytransport.sg/ltaodataservice/TrafficIncidents', {
-            headers: {
-              'AccountKey': ltaApiKey,
-              'accept': 'application/json'
-            }
-          });
-          
+          const result = await getRoadOpenings((request.params.arguments ?? {}) as RoadEventFilters, ltaApiKey);
           return {
             content: [{
               type: "text",
-              text: JSON.stringify(response.data, null, 2)
+              text: JSON.stringify(result, null, 2)
             }]
           };
         } catch (error) {
-          if (axios.isAxiosError(error)) {
-            return {
-              content: [{
-                type: "text",
-                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
-              }],
-              isError: true
-            };
-          }
-          throw error;
+          return {
+            content: [{
+              type: "text",
+              text: `Road openings error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
         }
       }
 
-      case "station_crowd_forecast": {
-        const { trainLine } = request.params.arguments as {
-          trainLine: string;
-        };
+      case "vms_messages": {
+        try {
+          const result = await getVmsMessages((request.params.arguments ?? {}) as VmsFilters, ltaApiKey);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `VMS messages error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
 
+      case "traffic_speed_bands": {
         try {
-          const response = await axios.get('https://datamall2.mytransport.sg/ltaodataservice/PCDForecast', {
-            params: {
-              TrainLine: trainLine
-            },
-            headers: {
-              'AccountKey': ltaApiKey,
-              'accept': 'application/json'
-            }
-          });
+          const result = await getTrafficSpeedBands((request.params.arguments ?? {}) as TrafficSpeedBandFilters, ltaApiKey);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `Traffic speed bands error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
 
+      case "traffic_cameras": {
+        try {
+          const result = await getTrafficCameras((request.params.arguments ?? {}) as TrafficCameraFilters, ltaApiKey);
           return {
             content: [{
               type: "text",
-              text: JSON.stringify(response.data, null, 2)
+              text: JSON.stringify(result, null, 2)
             }]
           };
         } catch (error) {
-          if (axios.isAxiosError(error)) {
-            return {
-              content: [{
-                type: "text",
-                text: `LTA API error: ${error.response?.data?.Message ?? error.message}`
-              }],
-              isError: true
-            };
-          }
-          throw error;
+          return {
+            content: [{
+              type: "text",
+              text: `Traffic cameras error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
         }
       }
 
-      case "bus_stop_search": {
-        const { query, limit } = request.params.arguments as {
-          query: string;
-          limit?: number;
-        };
-        const maxResults = typeof limit === 'number' && Number.isFinite(limit)
-          ? Math.max(0, Math.min(Math.floor(limit), 20))
-          : 10;
+      case "bicycle_parking": {
         try {
-          const results = await searchBusStops(query, ltaApiKey, maxResults);
-          if (results.length === 0) {
-            return {
-              content: [{
-                type: "text",
-                text: `No bus stops found matching "${query}"`
-              }]
-            };
-          }
+          const result = await getBicycleParking((request.params.arguments ?? {}) as BicycleParkingSearch, ltaApiKey);
           return {
             content: [{
               type: "text",
-              text: JSON.stringify(results, null, 2)
+              text: JSON.stringify(result, null, 2)
             }]
           };
         } catch (error) {
           return {
             content: [{
               type: "text",
-              text: `Bus stop search error: ${error instanceof Error ? error.message : String(error)}`
+              text: `Bicycle parking error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "ev_charging_points": {
+        try {
+          const result = await getEvChargingPoints((request.params.arguments ?? {}) as EvChargingFilters, ltaApiKey);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `EV charging points error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "erp_charge": {
+        try {
+          const result = await getErpCharge((request.params.arguments ?? {}) as ErpChargeQuery, ltaApiKey);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `ERP charge error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "passenger_volume": {
+        try {
+          const result = await getPassengerVolume((request.params.arguments ?? {}) as PassengerVolumeQuery, ltaApiKey);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `Passenger volume error: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      case "passenger_destinations": {
+        try {
+          const result = await getPassengerDestinations((request.params.arguments ?? {}) as PassengerDestinationQuery, ltaApiKey);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          return {
+            content: [{
+              type: "text",
+              text: `Passenger destinations error: ${error instanceof Error ? error.message : String(error)}`
             }],
             isError: true
           };
@@ -0,0 +1,485 @@
+/**
+ * Passenger volume — monthly tap-in/tap-out counts per bus stop or train
+ * station, and origin-destination trip counts, from DataMall's PV datasets.
+ *
+ * The PV endpoints do not return data directly: they return a short-lived
+ * link to a zipped CSV (tens to hundreds of MB for the OD files). Each file
+ * is downloaded to the cache directory and streamed through once, reduced to
+ * a compact aggregate (hourly volumes per node, or per origin the hourly
+ * departures and top destinations), and that aggregate is written to disk
+ * per dataset and month. Later questions about the same month read the
+ * aggregate instead.
+ *
+ * DataMall only keeps the last three months; without a month, the latest
+ * published month is used.
+ */
+
+import axios from 'axios';
+import { createWriteStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import { pipeline } from 'stream/promises';
+import { BusStop, getBusStopDirectory, resolveBusStops } from './bus-stops-cache.js';
+import { DATAMALL_BASE_URL } from './utils/datamall-client.js';
+import { normalizeLimit } from './utils/filters.js';
+import { createTopCounter, TopCounter } from './utils/top-counter.js';
+import { listZipEntries, openZipEntry } from './utils/zip.js';
+
+export type PassengerTransport = 'bus' | 'train';
+export type PassengerDayType = 'weekday' | 'weekend';
+
+export interface PassengerVolumeQuery {
+  transport?: PassengerTransport;
+  /** Bus stop code or name, or train station code such as "NS1" */
+  code?: string;
+  dayType?: PassengerDayType;
+  /** YYYY-MM */
+  month?: string;
+  limit?: number;
+}
+
+export interface PassengerDestinationQuery {
+  transport?: PassengerTransport;
+  /** Origin bus stop code or name, or train station code */
+  origin?: string;
+  dayType?: PassengerDayType;
+  /** YYYY-MM */
+  month?: string;
+  limit?: number;
+}
+
+interface HourlyVolume {
+  tapIn: number[];
+  tapOut: number[];
+}
+
+interface OriginSummary {
+  totalTrips: number;
+  tripsByHour: number[];
+  /**
+   * [destination code, trips, overcount], most trips first. Trips may be up
+   * to `overcount` too high (see utils/top-counter); older aggregates have
+   * no third element.
+   */
+  destinations: Array<[string, number, number?]>;
+}
+
+/** Per-origin tally while an OD file is parsed. */
+interface OriginTally {
+  totalTrips: number;
+  tripsByHour: number[];
+  destinations: TopCounter;
+}
+
+type NodeVolumes = Record<string, Partial<Record<PassengerDayType, HourlyVolume>>>;
+type OdSummaries = Record<string, Partial<Record<PassengerDayType, OriginSummary>>>;
+
+interface Aggregate<T> {
+  dataset: string;
+  /** YYYYMM */
+  month: string;
+  data: T;
+}
+
+const DATASETS: Record<PassengerTransport, { volume: string; od: string }> = {
+  bus: { volume: 'PV/Bus', od: 'PV/ODBus' },
+  train: { volume: 'PV/Train', od: 'PV/ODTrain' },
+};
+
+const CACHE_DIR = process.env.PASSENGER_VOLUME_CACHE_DIR || path.join(os.tmpdir(), 'lta-passenger-volume');
+const DAY_TYPES: PassengerDayType[] = ['weekday', 'weekend'];
+const HOURS = 24;
+// Destinations kept per origin and day type in the on-disk aggregate
+const STORED_DESTINATIONS = 50;
+// Destinations counted per origin and day type while parsing; the bus OD
+// file has too many origin-destination pairs to count every one exactly
+const TRACKED_DESTINATIONS = STORED_DESTINATIONS * 4;
+const DEFAULT_HOURS_LIMIT = 3;
+const DEFAULT_DESTINATIONS_LIMIT = 10;
+const MONTH_PATTERN = /^(\d{4})-?(\d{2})$/;
+const VOLUME_NOTE = 'Counts are totals for the month over all days of each day type (weekends include public holidays).';
+
+const LINK_TIMEOUT_MS = 30_000;
+// Covers the whole download, so a stalled transfer fails instead of holding
+// up every later request for the same file
+const DOWNLOAD_TIMEOUT_MS = 10 * 60_000;
+
+const loaded = new Map<string, Aggregate<unknown>>();
+const processing = new Map<string, Promise<Aggregate<unknown>>>();
+
+function parseMonth(month: string | undefined): string | undefined {
+  const trimmed = month?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const match = MONTH_PATTERN.exec(trimmed);
+  if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+    throw new Error('month must be in YYYY-MM format');
+  }
+
+  return `${match[1]}${match[2]}`;
+}
+
+function formatMonth(month: string): string {
+  return `${month.slice(0, 4)}-${month.slice(4)}`;
+}
+
+function parseDayType(value: string): PassengerDayType {
+  return value.toUpperCase().includes('WEEKDAY') ? 'weekday' : 'weekend';
+}
+
+function cacheFile(dataset: string, month: string): string {
+  return path.join(CACHE_DIR, `${dataset.replace('/', '-').toLowerCase()}-${month}.json`);
+}
+
+async function readCachedAggregate<T>(dataset: string, month: string): Promise<Aggregate<T> | undefined> {
+  const key = `${dataset}:${month}`;
+  const inMemory = loaded.get(key);
+  if (inMemory) {
+    return inMemory as Aggregate<T>;
+  }
+
+  try {
+    const aggregate = JSON.parse(await fs.readFile(cacheFile(dataset, month), 'utf-8')) as Aggregate<T>;
+    loaded.set(key, aggregate);
+    return aggregate;
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeCachedAggregate(aggregate: Aggregate<unknown>): Promise<void> {
+  loaded.set(`${aggregate.dataset}:${aggregate.month}`, aggregate);
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    const file = cacheFile(aggregate.dataset, aggregate.month);
+    // Write then rename so a crash never leaves a truncated aggregate behind
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(aggregate));
+    await fs.rename(`${file}.tmp`, file);
+    console.error(`Cached ${aggregate.dataset} ${formatMonth(aggregate.month)} aggregate at ${file}`);
+  } catch (error) {
+    console.error(`Failed to write ${aggregate.dataset} aggregate:`, error);
+  }
+}
+
+/**
+ * Stream the CSV lines of a downloaded archive, calling `onRow` with each
+ * data row as a column-name → value lookup.
+ */
+async function streamCsv(archivePath: string, onRow: (row: (column: string) => string) => void): Promise<void> {
+  const entry = (await listZipEntries(archivePath)).find((candidate) => candidate.name.toLowerCase().endsWith('.csv'));
+  if (!entry) {
+    throw new Error('Passenger volume archive contains no CSV file');
+  }
+
+  const lines = readline.createInterface({ input: await openZipEntry(archivePath, entry), crlfDelay: Infinity });
+  let columns: Map<string, number> | undefined;
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    const cells = line.split(',').map((cell) => cell.trim().replace(/^"|"$/g, ''));
+    if (!columns) {
+      columns = new Map(cells.map((name, index) => [name.toUpperCase(), index]));
+      continue;
+    }
+
+    const lookup = columns;
+    onRow((column) => cells[lookup.get(column) ?? -1] ?? '');
+  }
+}
+
+function aggregateVolumes(dataset: string, archivePath: string): Promise<Aggregate<NodeVolumes>> {
+  const nodes: NodeVolumes = {};
+  let month = '';
+
+  return streamCsv(archivePath, (row) => {
+    month ||= row('YEAR_MONTH').replace('-', '');
+    const hour = Number(row('TIME_PER_HOUR'));
+    if (!Number.isInteger(hour) || hour < 0 || hour >= HOURS) {
+      return;
+    }
+
+    const dayType = parseDayType(row('DAY_TYPE'));
+    const node = (nodes[row('PT_CODE')] ??= {});
+    const volume = (node[dayType] ??= { tapIn: new Array(HOURS).fill(0), tapOut: new Array(HOURS).fill(0) });
+    volume.tapIn[hour] += Number(row('TOTAL_TAP_IN_VOLUME')) || 0;
+    volume.tapOut[hour] += Number(row('TOTAL_TAP_OUT_VOLUME')) || 0;
+  }).then(() => ({ dataset, month, data: nodes }));
+}
+
+function aggregateOriginDestination(dataset: string, archivePath: string): Promise<Aggregate<OdSummaries>> {
+  const tallies = new Map<string, Map<PassengerDayType, OriginTally>>();
+  let month = '';
+
+  return streamCsv(archivePath, (row) => {
+    month ||= row('YEAR_MONTH').replace('-', '');
+    const hour = Number(row('TIME_PER_HOUR'));
+    const trips = Number(row('TOTAL_TRIPS')) || 0;
+    const dayType = parseDayType(row('DAY_TYPE'));
+    const origin = row('ORIGIN_PT_CODE');
+    const destination = row('DESTINATION_PT_CODE');
+
+    let byDayType = tallies.get(origin);
+    if (!byDayType) {
+      byDayType = new Map();
+      tallies.set(origin, byDayType);
+    }
+    let tally = byDayType.get(dayType);
+    if (!tally) {
+      tally = { totalTrips: 0, tripsByHour: new Array(HOURS).fill(0), destinations: createTopCounter(TRACKED_DESTINATIONS) };
+      byDayType.set(dayType, tally);
+    }
+
+    tally.totalTrips += trips;
+    if (Number.isInteger(hour) && hour >= 0 && hour < HOURS) {
+      tally.tripsByHour[hour] += trips;
+    }
+    tally.destinations.add(destination, trips);
+  }).then(() => {
+    const summaries: OdSummaries = {};
+    for (const [origin, byDayType] of tallies) {
+      const summary: OdSummaries[string] = (summaries[origin] = {});
+      for (const [dayType, tally] of byDayType) {
+        summary[dayType] = {
+          totalTrips: tally.totalTrips,
+          tripsByHour: tally.tripsByHour,
+          destinations: tally.destinations.top(STORED_DESTINATIONS)
+            .map(({ key, count, overcount }): [string, number, number] => [key, count, overcount]),
+        };
+      }
+    }
+
+    return { dataset, month, data: summaries };
+  });
+}
+
+/**
+ * The aggregate of a PV dataset for a month (default: latest), from memory,
+ * disk, or by downloading and processing the file. Concurrent requests for
+ * the same file share one download.
+ */
+async function getAggregate<T>(
+  dataset: string,
+  month: string | undefined,
+  apiKey: string,
+  aggregate: (dataset: string, archivePath: string) => Promise<Aggregate<T>>,
+): Promise<Aggregate<T>> {
+  if (month) {
+    const cached = await readCachedAggregate<T>(dataset, month);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  const response = await axios.get(`${DATAMALL_BASE_URL}/${dataset}`, {
+    params: month ? { Date: month } : {},
+    headers: { 'AccountKey': apiKey, 'accept': 'application/json' },
+    timeout: LINK_TIMEOUT_MS,
+  });
+  const link: string | undefined = response.data?.value?.[0]?.Link;
+  if (!link) {
+    throw new Error(`No ${dataset} data published${month ? ` for ${formatMonth(month)}` : ''}. DataMall keeps the last three months only.`);
+  }
+
+  // File names end in the month, e.g. transport_node_bus_202405.zip
+  const linkMonth = /_(\d{6})\.zip/i.exec(new URL(link).pathname)?.[1];
+  if (!month && linkMonth) {
+    const cached = await readCachedAggregate<T>(dataset, linkMonth);
+    if (cached) {
+      return cached;
+    }
+  }
+
+  const key = `${dataset}:${month ?? linkMonth ?? 'latest'}`;
+  let pending = processing.get(key);
+  if (!pending) {
+    pending = (async () => {
+      const archivePath = path.join(CACHE_DIR, `${key.replace(/[/:]/g, '-').toLowerCase()}.zip.download`);
+      try {
+        console.error(`Downloading ${dataset} passenger volume file...`);
+        await fs.mkdir(CACHE_DIR, { recursive: true });
+        const signal = AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS);
+        const file = await axios.get<NodeJS.ReadableStream>(link, { responseType: 'stream', signal });
+        await pipeline(file.data, createWriteStream(archivePath), { signal });
+        const result = await aggregate(dataset, archivePath);
+        result.month ||= month ?? linkMonth ?? '';
+        await writeCachedAggregate(result);
+        return result;
+      } finally {
+        processing.delete(key);
+        await fs.rm(archivePath, { force: true });
+      }
+    })();
+    processing.set(key, pending);
+  }
+
+  return pending as Promise<Aggregate<T>>;
+}
+
+/**
+ * Resolve a bus stop code or name to a stop code, or normalize a train
+ * station code.
+ */
+async function resolveNodeCode(transport: PassengerTransport, value: string | undefined, label: string, apiKey: string): Promise<string> {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    throw new Error(`Provide ${label}`);
+  }
+  if (transport === 'train') {
+    return trimmed.toUpperCase();
+  }
+
+  const [stop] = await resolveBusStops(trimmed, apiKey, 1);
+  if (!stop) {
+    throw new Error(`No bus stop found matching "${trimmed}"`);
+  }
+
+  return stop.BusStopCode;
+}
+
+/**
+ * Match a PV node code against a requested code. Interchanges appear as one
+ * node such as "NS1-EW24", so "EW24" matches it; bus stop codes may have
+ * lost their leading zero in the CSV.
+ */
+function matchesNode(nodeCode: string, code: string): boolean {
+  if (/^\d+$/.test(nodeCode) && /^\d+$/.test(code)) {
+    return Number(nodeCode) === Number(code);
+  }
+
+  return nodeCode === code || nodeCode.split(/[-/]/).includes(code);
+}
+
+function requestedDayTypes(dayType: PassengerDayType | undefined): PassengerDayType[] {
+  if (dayType && !DAY_TYPES.includes(dayType)) {
+    throw new Error('dayType must be weekday or weekend');
+  }
+
+  return dayType ? [dayType] : DAY_TYPES;
+}
+
+function requireTransport(transport: PassengerTransport | undefined): PassengerTransport {
+  if (transport !== 'bus' && transport !== 'train') {
+    throw new Error('transport must be bus or train');
+  }
+
+  return transport;
+}
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00-${String((hour + 1) % HOURS).padStart(2, '0')}:00`;
+}
+
+function busStopName(stops: ReadonlyMap<string, BusStop>, code: string): string | undefined {
+  const stop = stops.get(code);
+  return stop ? `${stop.Description} (${stop.RoadName})` : undefined;
+}
+
+/**
+ * Monthly tap-in/tap-out totals at a bus stop or train station and its
+ * busiest hours, per day type.
+ */
+export async function getPassengerVolume(query: PassengerVolumeQuery, apiKey: string) {
+  const transport = requireTransport(query.transport);
+  const dayTypes = requestedDayTypes(query.dayType);
+  const month = parseMonth(query.month);
+  const limit = normalizeLimit(query.limit, DEFAULT_HOURS_LIMIT, HOURS);
+  const code = await resolveNodeCode(transport, query.code, 'a bus stop or station code', apiKey);
+
+  const aggregate = await getAggregate(DATASETS[transport].volume, month, apiKey, aggregateVolumes);
+  const nodeCode = Object.keys(aggregate.data).find((candidate) => matchesNode(candidate, code));
+  if (!nodeCode) {
+    throw new Error(`No passenger volume recorded for ${code} in ${formatMonth(aggregate.month)}`);
+  }
+
+  const stops = transport === 'bus'
+    ? await getBusStopDirectory(apiKey).catch(() => new Map<string, BusStop>())
+    : new Map<string, BusStop>();
+  const node = aggregate.data[nodeCode];
+  const name = busStopName(stops, code);
+
+  return {
+    transport,
+    code: transport === 'bus' ? code : nodeCode,
+    ...(name && { name }),
+    month: formatMonth(aggregate.month),
+    note: VOLUME_NOTE,
+    dayTypes: Object.fromEntries(dayTypes.map((dayType) => {
+      const volume = node[dayType];
+      if (!volume) {
+        return [dayType, null];
+      }
+
+      const busiestHours = volume.tapIn
+        .map((tapIn, hour) => ({ hour: formatHour(hour), tapIn, tapOut: volume.tapOut[hour], total: tapIn + volume.tapOut[hour] }))
+        .sort((a, b) => b.total - a.total)
+        .slice(0, limit);
+
+      return [dayType, {
+        totalTapIn: volume.tapIn.reduce((sum, value) => sum + value, 0),
+        totalTapOut: volume.tapOut.reduce((sum, value) => sum + value, 0),
+        busiestHours,
+      }];
+    })),
+  };
+}
+
+/**
+ * The most common destinations of trips starting at a bus stop or train
+ * station in a month, with each destination's share of trips, per day type.
+ */
+export async function getPassengerDestinations(query: PassengerDestinationQuery, apiKey: string) {
+  const transport = requireTransport(query.transport);
+  const dayTypes = requestedDayTypes(query.dayType);
+  const month = parseMonth(query.month);
+  const limit = normalizeLimit(query.limit, DEFAULT_DESTINATIONS_LIMIT, STORED_DESTINATIONS);
+  const code = await resolveNodeCode(transport, query.origin, 'an origin bus stop or station code', apiKey);
+
+  const aggregate = await getAggregate(DATASETS[transport].od, month, apiKey, aggregateOriginDestination);
+  const originCode = Object.keys(aggregate.data).find((candidate) => matchesNode(candidate, code));
+  if (!originCode) {
+    throw new Error(`No trips recorded from ${code} in ${formatMonth(aggregate.month)}`);
+  }
+
+  const stops = transport === 'bus'
+    ? await getBusStopDirectory(apiKey).catch(() => new Map<string, BusStop>())
+    : new Map<string, BusStop>();
+  const origin = aggregate.data[originCode];
+  const originName = busStopName(stops, code);
+
+  return {
+    transport,
+    origin: transport === 'bus' ? code : originCode,
+    ...(originName && { originName }),
+    month: formatMonth(aggregate.month),
+    note: VOLUME_NOTE,
+    dayTypes: Object.fromEntries(dayTypes.map((dayType) => {
+      const summary = origin[dayType];
+      if (!summary) {
+        return [dayType, null];
+      }
+
+      const busiestDepartureHours = summary.tripsByHour
+        .map((trips, hour) => ({ hour: formatHour(hour), trips }))
+        .sort((a, b) => b.trips - a.trips)
+        .slice(0, DEFAULT_HOURS_LIMIT);
+
+      return [dayType, {
+        totalTrips: summary.totalTrips,
+        busiestDepartureHours,
+        topDestinations: summary.destinations.slice(0, limit).map(([destination, trips, overcount]) => ({
+          destination,
+          ...(stops.size > 0 && { name: busStopName(stops, destination.padStart(5, '0')) ?? null }),
+          trips,
+          // Only origins with very many destinations are counted approximately
+          ...(overcount !== undefined && overcount > 0 && { tripsOvercountUpTo: overcount }),
+          sharePercent: summary.totalTrips > 0 ? Math.round((trips / summary.totalTrips) * 1000) / 10 : 0,
+        })),
+      }];
+    })),
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * Planned road works, road openings and variable message signs (VMS).
+ *
+ * RoadWorks and RoadOpenings share a shape: an event with a start and end
+ * date (YYYY-MM-DD, Singapore dates), a road and the department in charge.
+ * Both can be narrowed to a date window and a road name, and each event is
+ * tagged as upcoming, ongoing or completed relative to today. VMS are the
+ * expressway message boards and carry free text plus a location.
+ */
+
+import { DATAMALL_BASE_URL, fetchAllPages } from './utils/datamall-client.js';
+import { matchesText, normalizeLimit, normalizeRadius, toPoint } from './utils/filters.js';
+import { haversineMeters } from './utils/geo.js';
+import { formatSingaporeDate } from './utils/sg-time.js';
+
+export interface RoadEvent {
+  EventID: string;
+  StartDate: string;
+  EndDate: string;
+  SvcDept: string;
+  RoadName?: string;
+  Other: string;
+}
+
+export interface VmsMessage {
+  EquipmentID: string;
+  Latitude: number;
+  Longitude: number;
+  Message: string;
+}
+
+export interface RoadEventFilters {
+  road?: string;
+  /** Window start, YYYY-MM-DD */
+  fromDate?: string;
+  /** Window end, YYYY-MM-DD */
+  toDate?: string;
+  limit?: number;
+}
+
+export interface VmsFilters {
+  text?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  limit?: number;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const DEFAULT_VMS_RADIUS_M = 5000;
+const MAX_VMS_RADIUS_M = 30000;
+
+function parseDateArg(value: string | undefined, label: string): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (!DATE_PATTERN.test(trimmed)) {
+    throw new Error(`${label} must be a date in YYYY-MM-DD format`);
+  }
+
+  return trimmed;
+}
+
+/**
+ * Events overlapping the window, matching the road, in start date order.
+ * DataMall dates may carry a time part; only the date is compared.
+ */
+async function getRoadEvents(dataset: 'RoadWorks' | 'RoadOpenings', filters: RoadEventFilters, apiKey: string) {
+  const fromDate = parseDateArg(filters.fromDate, 'fromDate');
+  const toDate = parseDateArg(filters.toDate, 'toDate');
+  const limit = normalizeLimit(filters.limit, DEFAULT_LIMIT, MAX_LIMIT);
+  const today = formatSingaporeDate();
+
+  const records = await fetchAllPages<RoadEvent>(`${DATAMALL_BASE_URL}/${dataset}`, apiKey);
+  const events = records
+    .map((record) => ({
+      eventId: record.EventID,
+      roadName: record.RoadName,
+      startDate: (record.StartDate ?? '').slice(0, 10),
+      endDate: (record.EndDate ?? '').slice(0, 10),
+      department: record.SvcDept,
+      ...(record.Other && { details: record.Other }),
+    }))
+    .filter((event) => matchesText(event.roadName, filters.road))
+    .filter((event) => !toDate || event.startDate <= toDate)
+    .filter((event) => !fromDate || event.endDate >= fromDate)
+    .map((event) => ({
+      ...event,
+      status: event.startDate > today ? 'upcoming' : event.endDate < today ? 'completed' : 'ongoing',
+    }))
+    .sort((a, b) => a.startDate.localeCompare(b.startDate) || (a.roadName ?? '').localeCompare(b.roadName ?? ''));
+
+  return {
+    today,
+    totalMatched: events.length,
+    events: events.slice(0, limit),
+  };
+}
+
+/**
+ * Planned road works, optionally within a date window and on a given road.
+ */
+export async function getRoadWorks(filters: RoadEventFilters, apiKey: string) {
+  return getRoadEvents('RoadWorks', filters, apiKey);
+}
+
+/**
+ * Planned road openings, optionally within a date window and on a given road.
+ */
+export async function getRoadOpenings(filters: RoadEventFilters, apiKey: string) {
+  return getRoadEvents('RoadOpenings', filters, apiKey);
+}
+
+/**
+ * Messages currently shown on expressway VMS boards, optionally filtered by
+ * text and by distance from a point (nearest first).
+ */
+export async function getVmsMessages(filters: VmsFilters, apiKey: string) {
+  const origin = toPoint(filters.latitude, filters.longitude);
+  const radiusMeters = normalizeRadius(filters.radius, DEFAULT_VMS_RADIUS_M, MAX_VMS_RADIUS_M);
+  const limit = normalizeLimit(filters.limit, DEFAULT_LIMIT, MAX_LIMIT);
+
+  const records = await fetchAllPages<VmsMessage>(`${DATAMALL_BASE_URL}/VMS`, apiKey);
+  const messages = records
+    // Blank boards carry no information
+    .filter((record) => record.Message?.trim())
+    .filter((record) => matchesText(record.Message, filters.text))
+    .map((record) => ({
+      equipmentId: record.EquipmentID,
+      message: record.Message.trim(),
+      latitude: record.Latitude,
+      longitude: record.Longitude,
+      ...(origin && {
+        distanceMeters: Math.round(haversineMeters(origin.latitude, origin.longitude, record.Latitude, record.Longitude)),
+      }),
+    }))
+    .filter((record) => record.distanceMeters === undefined || record.distanceMeters <= radiusMeters);
+
+  if (origin) {
+    messages.sort((a, b) => (a.distanceMeters ?? 0) - (b.distanceMeters ?? 0));
+  }
+
+  return {
+    totalMatched: messages.length,
+    ...(origin && { radiusMeters }),
+    messages: messages.slice(0, limit),
+  };
+}
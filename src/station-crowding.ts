@@ -0,0 +1,446 @@
+/**
+ * Station crowding from the platform crowd density datasets: PCDRealTime
+ * (the current level, refreshed every 10 minutes) and PCDForecast (a
+ * predicted level for every 30-minute interval of the day).
+ *
+ * Both datasets are queried one train line at a time and identify stations
+ * only by code. A station the user names is resolved through the bundled
+ * station reference to its codes, and an interchange is queried on each of
+ * its lines, so "Dhoby Ghaut" gives the NSL, NEL and CCL platforms together.
+ * The forecast also drives the best-time-to-travel ranking.
+ */
+
+import axios from 'axios';
+import {
+  findStations,
+  formatStationCodes,
+  getStationByCode,
+  normalizeTrainLine,
+  StationCode,
+  TRAIN_LINE_NAMES,
+  TrainLine,
+  TrainStation,
+} from './train-stations.js';
+import { mapWithConcurrency } from './utils/concurrency.js';
+import { DATAMALL_BASE_URL } from './utils/datamall-client.js';
+import { normalizeLimit } from './utils/filters.js';
+import { formatClockTime, formatSingaporeTime, fromSingaporeLocal, parseClockTime, singaporeDateParts } from './utils/sg-time.js';
+
+export interface CrowdRealTime {
+  Station: string;
+  StartTime: string;
+  EndTime: string;
+  CrowdLevel: string;
+}
+
+export interface CrowdForecastDay {
+  Date: string;
+  Stations: Array<{
+    Station: string;
+    Interval: Array<{ Start: string; CrowdLevel: string }>;
+  }>;
+}
+
+export interface StationCrowdQuery {
+  /** Station name ("Dhoby Ghaut") or code ("NE6") */
+  station?: string;
+  trainLine?: string;
+}
+
+export interface BestTimeQuery {
+  /** Station to board or alight at; or give origin and destination */
+  station?: string;
+  origin?: string;
+  destination?: string;
+  /** Window start, HH:MM Singapore time (default: now) */
+  from?: string;
+  /** Window end, HH:MM Singapore time (default: three hours after from) */
+  to?: string;
+  limit?: number;
+}
+
+export type CrowdLevel = 'low' | 'moderate' | 'high' | 'unknown';
+
+export interface CrowdInterval {
+  start: number;
+  crowdLevel: CrowdLevel;
+}
+
+const CROWD_LEVELS: Record<string, CrowdLevel> = {
+  l: 'low',
+  m: 'moderate',
+  h: 'high',
+};
+
+const CROWD_RANK: Record<CrowdLevel, number> = {
+  unknown: 0,
+  low: 1,
+  moderate: 2,
+  high: 3,
+};
+
+const MAX_STATION_MATCHES = 5;
+const LINE_CONCURRENCY = 3;
+const INTERVAL_MS = 30 * 60 * 1000;
+const DEFAULT_WINDOW_MINUTES = 180;
+const DEFAULT_SLOTS = 3;
+const MAX_SLOTS = 10;
+
+export function describeCrowdLevel(level: string | undefined): CrowdLevel {
+  return CROWD_LEVELS[level?.trim().toLowerCase() ?? ''] ?? 'unknown';
+}
+
+/**
+ * The most crowded of several levels, ignoring unknowns.
+ */
+export function busiestLevel(levels: CrowdLevel[]): CrowdLevel {
+  return levels.reduce<CrowdLevel>((busiest, level) => (CROWD_RANK[level] > CROWD_RANK[busiest] ? level : busiest), 'unknown');
+}
+
+function toSingaporeTime(value: string | undefined): string | null {
+  const epochMs = Date.parse(value ?? '');
+  return Number.isNaN(epochMs) ? value ?? null : formatSingaporeTime(epochMs);
+}
+
+// A record's Station may be one code or an interchange's codes joined
+function recordCodes(station: string | undefined): string[] {
+  return (station ?? '').split(/[/-]/).map((code) => code.trim().toUpperCase()).filter(Boolean);
+}
+
+async function fetchLine<T>(dataset: string, line: TrainLine, apiKey: string): Promise<T[]> {
+  const response = await axios.get(`${DATAMALL_BASE_URL}/${dataset}`, {
+    params: { TrainLine: line },
+    headers: { 'AccountKey': apiKey, 'accept': 'application/json' },
+  });
+
+  return response.data?.value ?? [];
+}
+
+/**
+ * Current crowd readings on a line, keyed by station code.
+ */
+async function fetchRealTime(line: TrainLine, apiKey: string): Promise<Map<string, CrowdRealTime>> {
+  const readings = new Map<string, CrowdRealTime>();
+  for (const record of await fetchLine<CrowdRealTime>('PCDRealTime', line, apiKey)) {
+    for (const code of recordCodes(record.Station)) {
+      readings.set(code, record);
+    }
+  }
+  return readings;
+}
+
+/**
+ * Forecast intervals on a line, keyed by station code, in time order.
+ */
+async function fetchCrowdForecast(line: TrainLine, apiKey: string): Promise<Map<string, CrowdInterval[]>> {
+  const forecasts = new Map<string, CrowdInterval[]>();
+  for (const day of await fetchLine<CrowdForecastDay>('PCDForecast', line, apiKey)) {
+    for (const station of day.Stations ?? []) {
+      const intervals = (station.Interval ?? [])
+        .map((interval) => ({ start: Date.parse(interval.Start), crowdLevel: describeCrowdLevel(interval.CrowdLevel) }))
+        .filter((interval) => !Number.isNaN(interval.start));
+      for (const code of recordCodes(station.Station)) {
+        forecasts.set(code, [...(forecasts.get(code) ?? []), ...intervals].sort((a, b) => a.start - b.start));
+      }
+    }
+  }
+  return forecasts;
+}
+
+/**
+ * The stations a query names, each with the codes to look up: all of its
+ * lines, or only `line` when one is given.
+ */
+export function resolveStationCodes(station: string, line?: TrainLine): Array<{ station: TrainStation; codes: StationCode[] }> {
+  const matches = findStations(station);
+  if (matches.length === 0) {
+    throw new Error(`No MRT/LRT station matches "${station}"`);
+  }
+
+  const targets = matches
+    .map((match) => ({ station: match, codes: match.codes.filter((code) => !line || code.line === line) }))
+    .filter((target) => target.codes.length > 0);
+  if (targets.length === 0) {
+    throw new Error(`No station matching "${station}" is on the ${line}`);
+  }
+
+  return targets.slice(0, MAX_STATION_MATCHES);
+}
+
+function parseQuery(query: StationCrowdQuery) {
+  const line = normalizeTrainLine(query.trainLine);
+  const station = query.station?.trim();
+  if (!station && !line) {
+    throw new Error('Provide a station name or code, or a trainLine');
+  }
+
+  return { line, station };
+}
+
+function uniqueLines(targets: ReadonlyArray<{ codes: StationCode[] }>): TrainLine[] {
+  return [...new Set(targets.flatMap((target) => target.codes.map((code) => code.line)))];
+}
+
+async function fetchForecastsByLine(lines: TrainLine[], apiKey: string) {
+  return new Map(await mapWithConcurrency(lines, LINE_CONCURRENCY,
+    async (trainLine) => [trainLine, await fetchCrowdForecast(trainLine, apiKey)] as const));
+}
+
+/**
+ * One station's forecast: each interval start, in time order, with the
+ * level on each of the given codes' lines.
+ */
+function stationForecast(codes: StationCode[], forecastsByLine: Map<TrainLine, Map<string, CrowdInterval[]>>) {
+  const byStart = new Map<number, Partial<Record<TrainLine, CrowdLevel>>>();
+  for (const { code, line } of codes) {
+    for (const interval of forecastsByLine.get(line)?.get(code) ?? []) {
+      byStart.set(interval.start, { ...byStart.get(interval.start), [line]: interval.crowdLevel });
+    }
+  }
+
+  return new Map([...byStart.entries()].sort(([a], [b]) => a - b));
+}
+
+/**
+ * Current crowd level at the stations matching a name or code (across every
+ * line of an interchange), or at every station on a line.
+ */
+export async function getStationCrowding(query: StationCrowdQuery, apiKey: string) {
+  const { line, station } = parseQuery(query);
+
+  if (!station) {
+    const readings = [...new Set((await fetchRealTime(line!, apiKey)).values())];
+    const stations = readings.map((reading) => {
+      const code = reading.Station?.trim();
+      const known = getStationByCode(recordCodes(code)[0] ?? '');
+      return {
+        station: known?.name ?? code,
+        code,
+        ...(known && known.codes.length > 1 && { interchange: formatStationCodes(known) }),
+        crowdLevel: describeCrowdLevel(reading.CrowdLevel),
+      };
+    });
+
+    return {
+      trainLine: line,
+      lineName: TRAIN_LINE_NAMES[line!],
+      ...(readings[0] && { from: toSingaporeTime(readings[0].StartTime), to: toSingaporeTime(readings[0].EndTime) }),
+      stations,
+    };
+  }
+
+  const targets = resolveStationCodes(station, line);
+  const lines = uniqueLines(targets);
+  const readingsByLine = new Map(await mapWithConcurrency(lines, LINE_CONCURRENCY,
+    async (trainLine) => [trainLine, await fetchRealTime(trainLine, apiKey)] as const));
+
+  return {
+    stations: targets.map((target) => {
+      const platforms = target.codes.map(({ code, line: trainLine }) => {
+        const reading = readingsByLine.get(trainLine)?.get(code);
+        return {
+          line: trainLine,
+          lineName: TRAIN_LINE_NAMES[trainLine],
+          code,
+          crowdLevel: describeCrowdLevel(reading?.CrowdLevel),
+          ...(reading && { from: toSingaporeTime(reading.StartTime), to: toSingaporeTime(reading.EndTime) }),
+        };
+      });
+
+      return {
+        station: target.station.name,
+        codes: formatStationCodes(target.station),
+        crowdLevel: busiestLevel(platforms.map((platform) => platform.crowdLevel)),
+        lines: platforms,
+      };
+    }),
+  };
+}
+
+/**
+ * Forecast crowd level per 30-minute interval at the stations matching a
+ * name or code, or at every station on a line. At an interchange each
+ * interval shows the busiest line, with every line's level alongside.
+ */
+export async function getStationCrowdForecast(query: StationCrowdQuery, apiKey: string) {
+  const { line, station } = parseQuery(query);
+
+  if (!station) {
+    const forecasts = await fetchCrowdForecast(line!, apiKey);
+    return {
+      trainLine: line,
+      lineName: TRAIN_LINE_NAMES[line!],
+      stations: [...forecasts.entries()].map(([code, intervals]) => ({
+        station: getStationByCode(code)?.name ?? code,
+        code,
+        intervals: intervals.map((interval) => ({ start: formatSingaporeTime(interval.start), crowdLevel: interval.crowdLevel })),
+      })),
+    };
+  }
+
+  const targets = resolveStationCodes(station, line);
+  const forecastsByLine = await fetchForecastsByLine(uniqueLines(targets), apiKey);
+
+  return {
+    stations: targets.map((target) => {
+      const intervals = [...stationForecast(target.codes, forecastsByLine).entries()]
+        .map(([start, levels]) => ({
+          start: formatSingaporeTime(start),
+          crowdLevel: busiestLevel(Object.values(levels)),
+          ...(target.codes.length > 1 && { byLine: levels }),
+        }));
+
+      return {
+        station: target.station.name,
+        codes: formatStationCodes(target.station),
+        lines: target.codes.map(({ line: trainLine }) => trainLine),
+        ...(intervals.length === 0 && { note: 'No forecast published for this station' }),
+        intervals,
+      };
+    }),
+  };
+}
+
+/**
+ * Pick the one station a best-time query names; a partial name matching
+ * several stations is ambiguous here, unlike in the crowding tools.
+ */
+function resolveSingleStation(query: string, role: string): TrainStation {
+  const matches = findStations(query);
+  if (matches.length === 0) {
+    throw new Error(`No MRT/LRT station matches ${role} "${query}"`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`${role} "${query}" matches several stations (${matches.map((match) => match.name).join(', ')}); give the full name or a station code`);
+  }
+
+  return matches[0];
+}
+
+function describeStationLevel(name: string, levels: Partial<Record<TrainLine, CrowdLevel>>): string {
+  const byLine = Object.entries(levels);
+  const level = busiestLevel(Object.values(levels));
+  const mixed = new Set(Object.values(levels)).size > 1;
+  return `${name} ${level}${mixed ? ` (${byLine.map(([trainLine, lineLevel]) => `${trainLine} ${lineLevel}`).join(', ')})` : ''}`;
+}
+
+function formatSlot(start: number): string {
+  return `${formatSingaporeTime(start).slice(11, 16)}-${formatSingaporeTime(start + INTERVAL_MS).slice(11, 16)}`;
+}
+
+/**
+ * The least crowded 30-minute intervals to travel in a time window, at one
+ * station or across an origin and destination.
+ *
+ * Each interval is scored by adding up every station's forecast level (the
+ * busiest of an interchange's lines, since which platform is used is not
+ * known); a station without a forecast counts as moderate so that missing
+ * data never looks like the best choice. Lower scores rank first, then
+ * intervals whose busiest station is quieter, then earlier ones. The
+ * destination is judged in the same interval as the origin, which is close
+ * enough for trips of up to half an hour or so.
+ */
+export async function getBestTimeToTravel(query: BestTimeQuery, apiKey: string) {
+  const stationText = query.station?.trim();
+  const originText = query.origin?.trim();
+  const destinationText = query.destination?.trim();
+  if (!stationText && !(originText && destinationText)) {
+    throw new Error('Provide a station, or both origin and destination');
+  }
+
+  const stations = stationText
+    ? [resolveSingleStation(stationText, 'station')]
+    : [resolveSingleStation(originText!, 'origin'), resolveSingleStation(destinationText!, 'destination')];
+
+  const now = singaporeDateParts();
+  const from = query.from?.trim() ? parseClockTime(query.from) : now.hour * 60 + now.minute;
+  if (from === undefined) {
+    throw new Error('from must be in HH:MM format (24-hour, Singapore time)');
+  }
+  const to = query.to?.trim() ? parseClockTime(query.to) : Math.min(from + DEFAULT_WINDOW_MINUTES, 24 * 60);
+  if (to === undefined) {
+    throw new Error('to must be in HH:MM format (24-hour, Singapore time)');
+  }
+  if (to <= from) {
+    throw new Error('to must be later than from on the same day');
+  }
+
+  const limit = normalizeLimit(query.limit, DEFAULT_SLOTS, MAX_SLOTS);
+  const midnight = fromSingaporeLocal(now.year, now.month, now.day);
+  const windowStart = midnight + from * 60000;
+  const windowEnd = midnight + to * 60000;
+
+  const forecastsByLine = await fetchForecastsByLine(uniqueLines(stations), apiKey);
+  const forecasts = stations.map((station) => stationForecast(station.codes, forecastsByLine));
+
+  // Intervals overlapping the window, so a window starting at 08:10 still
+  // considers the 08:00-08:30 slot
+  const starts = [...new Set(forecasts.flatMap((forecast) => [...forecast.keys()]))]
+    .filter((start) => start + INTERVAL_MS > windowStart && start < windowEnd)
+    .sort((a, b) => a - b);
+
+  const context = {
+    stations: stations.map((station) => ({ station: station.name, codes: formatStationCodes(station) })),
+    window: { from: formatClockTime(from), to: formatClockTime(to) },
+  };
+  if (starts.length === 0) {
+    return { ...context, note: 'No crowd forecast is published for this window. PCDForecast covers the current day only.', bestSlots: [] };
+  }
+
+  const slots = starts.map((start) => {
+    const levels = forecasts.map((forecast) => forecast.get(start) ?? {});
+    const stationLevels = levels.map((lineLevels) => busiestLevel(Object.values(lineLevels)));
+    const ranks = stationLevels.map((level) => CROWD_RANK[level === 'unknown' ? 'moderate' : level]);
+    return {
+      start,
+      score: ranks.reduce((sum, rank) => sum + rank, 0),
+      peak: Math.max(...ranks),
+      crowdLevel: busiestLevel(stationLevels),
+      description: stations
+        .map((station, index) => (Object.keys(levels[index]).length > 0
+          ? describeStationLevel(station.name, levels[index])
+          : `${station.name} has no forecast`))
+        .join(', '),
+    };
+  });
+
+  const ranked = [...slots].sort((a, b) => a.score - b.score || a.peak - b.peak || a.start - b.start);
+  const best = ranked[0];
+  const worst = ranked[ranked.length - 1];
+  const allSame = best.score === worst.score;
+
+  const explain = (slot: typeof best) => {
+    if (allSame) {
+      return `Forecast: ${slot.description}. Every slot in the window is forecast the same.`;
+    }
+    if (slot.score === best.score) {
+      return `Quietest in the window. Forecast: ${slot.description}.`;
+    }
+    if (slot.score === worst.score) {
+      return `Forecast: ${slot.description}. As busy as the peak of the window.`;
+    }
+    return `Forecast: ${slot.description}. Busier than the best slot (${formatSlot(best.start)}) but quieter than the peak (${formatSlot(worst.start)}).`;
+  };
+
+  return {
+    ...context,
+    recommendation: allSame
+      ? `Crowds are forecast to be the same throughout ${formatClockTime(from)}-${formatClockTime(to)}, so any time works. Forecast: ${best.description}.`
+      : `Travel at ${formatSlot(best.start)}: ${best.description}. Avoid ${formatSlot(worst.start)}: ${worst.description}.`,
+    intervalsConsidered: slots.length,
+    bestSlots: ranked.slice(0, limit).map((slot, index) => ({
+      rank: index + 1,
+      start: formatSingaporeTime(slot.start),
+      end: formatSingaporeTime(slot.start + INTERVAL_MS),
+      crowdLevel: slot.crowdLevel,
+      explanation: explain(slot),
+    })),
+    ...(!allSame && {
+      busiestSlot: {
+        start: formatSingaporeTime(worst.start),
+        end: formatSingaporeTime(worst.start + INTERVAL_MS),
+        crowdLevel: worst.crowdLevel,
+      },
+    }),
+  };
+}
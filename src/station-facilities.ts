@@ -0,0 +1,83 @@
+/**
+ * MRT/LRT station lift maintenance from the v2/FacilitiesMaintenance dataset.
+ *
+ * The dataset lists only lifts that are currently under maintenance, one row
+ * per lift, so a station that does not appear has all its lifts working.
+ * Rows are grouped per station so interchanges (listed once per line) read
+ * as one place.
+ */
+
+import { findStations, normalizeTrainLine } from './train-stations.js';
+import { DATAMALL_BASE_URL, fetchAllPages } from './utils/datamall-client.js';
+import { matchesText } from './utils/filters.js';
+
+export interface FacilityMaintenance {
+  Line: string;
+  StationCode: string;
+  StationName: string;
+  LiftID: string;
+  LiftDesc: string;
+}
+
+export interface StationFacilitiesFilters {
+  /** Station code ("NS17") or name text ("Bishan") */
+  station?: string;
+  trainLine?: string;
+}
+
+/**
+ * True if the record is at a station the query names: by any of its codes
+ * through the station reference (so "NE6" also finds the NSL and CCL lifts
+ * at Dhoby Ghaut), or by name text.
+ */
+function matchesStation(record: FacilityMaintenance, station: string, codes: Set<string>): boolean {
+  return codes.has(record.StationCode?.trim().toUpperCase())
+    || matchesText(record.StationName, station);
+}
+
+/**
+ * Lifts under maintenance, grouped by station, optionally narrowed to one
+ * station (by code or name) and/or one line.
+ */
+export async function getStationFacilitiesMaintenance(filters: StationFacilitiesFilters, apiKey: string) {
+  const trainLine = normalizeTrainLine(filters.trainLine);
+  const station = filters.station?.trim();
+  const stationCodes = new Set(station
+    ? [station.toUpperCase(), ...findStations(station).flatMap((match) => match.codes.map(({ code }) => code))]
+    : []);
+
+  const records = await fetchAllPages<FacilityMaintenance>(`${DATAMALL_BASE_URL}/v2/FacilitiesMaintenance`, apiKey);
+  const matching = records
+    .filter((record) => !trainLine || record.Line?.trim().toUpperCase() === trainLine)
+    .filter((record) => !station || matchesStation(record, station, stationCodes));
+
+  const byStation = new Map<string, { stationName: string; stationCodes: Set<string>; lines: Set<string>; lifts: Map<string, string> }>();
+  for (const record of matching) {
+    const stationName = record.StationName?.trim() ?? '';
+    const entry = byStation.get(stationName.toUpperCase())
+      ?? { stationName, stationCodes: new Set<string>(), lines: new Set<string>(), lifts: new Map<string, string>() };
+    entry.stationCodes.add(record.StationCode?.trim());
+    entry.lines.add(record.Line?.trim());
+    entry.lifts.set(record.LiftID?.trim(), record.LiftDesc?.trim() ?? '');
+    byStation.set(stationName.toUpperCase(), entry);
+  }
+
+  const stations = [...byStation.values()]
+    .map((entry) => ({
+      stationName: entry.stationName,
+      stationCodes: [...entry.stationCodes].filter(Boolean).sort(),
+      lines: [...entry.lines].filter(Boolean).sort(),
+      liftsUnderMaintenance: [...entry.lifts.entries()].map(([liftId, description]) => ({ liftId, description })),
+    }))
+    .sort((a, b) => a.stationName.localeCompare(b.stationName));
+
+  return {
+    totalLifts: matching.length,
+    ...(stations.length === 0 && {
+      note: station
+        ? `No lift maintenance reported at stations matching "${station}"; all lifts there should be working.`
+        : 'No lift maintenance reported; all station lifts should be working.',
+    }),
+    stations,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Taxi availability and taxi stands around a location.
+ *
+ * Taxi-Availability is a live list of coordinates for every available taxi
+ * (several thousand rows); TaxiStands is a reference list that rarely
+ * changes and is cached for 24 hours. Both are reduced to a count within the
+ * radius plus the nearest few points, rather than raw coordinate dumps.
+ */
+
+import { DATAMALL_BASE_URL, fetchAllPages } from './utils/datamall-client.js';
+import { normalizeLimit, normalizeRadius, toPoint } from './utils/filters.js';
+import { estimateWalk, haversineMeters, isValidCoordinate } from './utils/geo.js';
+import { createReferenceCache } from './utils/reference-cache.js';
+import { formatSingaporeTime } from './utils/sg-time.js';
+
+export interface TaxiPosition {
+  Latitude: number;
+  Longitude: number;
+}
+
+export interface TaxiStand {
+  TaxiCode: string;
+  Latitude: number;
+  Longitude: number;
+  Bfa: string;
+  Ownership: string;
+  Type: string;
+  Name: string;
+}
+
+export interface TaxiSearch {
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  limit?: number;
+}
+
+const DEFAULT_TAXI_RADIUS_M = 500;
+const DEFAULT_STAND_RADIUS_M = 1000;
+const MAX_RADIUS_M = 5000;
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+
+const OWNERSHIP_DESCRIPTIONS: Record<string, string> = {
+  LTA: 'LTA',
+  CCS: 'Clear Code Scheme',
+  Private: 'Private',
+};
+
+const taxiStandsCache = createReferenceCache<TaxiStand[]>({
+  name: 'taxi stands',
+  load: (apiKey) => fetchAllPages<TaxiStand>(`${DATAMALL_BASE_URL}/TaxiStands`, apiKey),
+  describe: (stands) => `${stands.length} taxi stands`,
+});
+
+function requirePoint(search: TaxiSearch): { latitude: number; longitude: number } {
+  const point = toPoint(search.latitude, search.longitude);
+  if (!point) {
+    throw new Error('Provide latitude and longitude');
+  }
+
+  return point;
+}
+
+/**
+ * Count available taxis within the radius and list the nearest ones.
+ */
+export async function getTaxiAvailability(search: TaxiSearch, apiKey: string) {
+  const origin = requirePoint(search);
+  const radiusMeters = normalizeRadius(search.radius, DEFAULT_TAXI_RADIUS_M, MAX_RADIUS_M);
+  const limit = normalizeLimit(search.limit, DEFAULT_LIMIT, MAX_LIMIT);
+
+  const taxis = await fetchAllPages<TaxiPosition>(`${DATAMALL_BASE_URL}/Taxi-Availability`, apiKey, { maxRecords: 50000 });
+  const nearby = taxis
+    .filter((taxi) => isValidCoordinate(taxi.Latitude, taxi.Longitude))
+    .map((taxi) => ({
+      latitude: taxi.Latitude,
+      longitude: taxi.Longitude,
+      distanceMeters: Math.round(haversineMeters(origin.latitude, origin.longitude, taxi.Latitude, taxi.Longitude)),
+    }))
+    .filter((taxi) => taxi.distanceMeters <= radiusMeters)
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+
+  return {
+    queriedAt: formatSingaporeTime(Date.now()),
+    radiusMeters,
+    availableNearby: nearby.length,
+    availableIslandWide: taxis.length,
+    nearest: nearby.slice(0, limit),
+  };
+}
+
+/**
+ * Count taxi stands and stops within the radius and list the nearest ones.
+ */
+export async function getTaxiStands(search: TaxiSearch, apiKey: string) {
+  const origin = requirePoint(search);
+  const radiusMeters = normalizeRadius(search.radius, DEFAULT_STAND_RADIUS_M, MAX_RADIUS_M);
+  const limit = normalizeLimit(search.limit, DEFAULT_LIMIT, MAX_LIMIT);
+
+  const stands = await taxiStandsCache.get(apiKey);
+  const nearby = stands
+    .filter((stand) => isValidCoordinate(stand.Latitude, stand.Longitude))
+    .map((stand) => {
+      const distanceMeters = haversineMeters(origin.latitude, origin.longitude, stand.Latitude, stand.Longitude);
+      return {
+        taxiCode: stand.TaxiCode,
+        name: stand.Name,
+        type: stand.Type,
+        ownership: OWNERSHIP_DESCRIPTIONS[stand.Ownership] ?? stand.Ownership,
+        barrierFreeAccess: stand.Bfa === 'Yes',
+        latitude: stand.Latitude,
+        longitude: stand.Longitude,
+        distanceMeters: Math.round(distanceMeters),
+        ...estimateWalk(distanceMeters),
+      };
+    })
+    .filter((stand) => stand.distanceMeters <= radiusMeters)
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+
+  return {
+    radiusMeters,
+    standsNearby: nearby.length,
+    nearest: nearby.slice(0, limit),
+  };
+}
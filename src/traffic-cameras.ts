@@ -0,0 +1,193 @@
+/**
+ * Traffic cameras — camera locations and current image links from the
+ * Traffic-Imagesv2 dataset.
+ *
+ * Image links are signed URLs that stop working a few minutes after they are
+ * issued, so each camera carries the time its link expires. The dataset has
+ * no road names; cameras are matched to an expressway by their distance to
+ * that expressway's links in the speed band dataset, read through that
+ * module's cache; the derived geometry is kept for 24 hours.
+ */
+
+import { DATAMALL_BASE_URL, fetchAllPages } from './utils/datamall-client.js';
+import { normalizeLimit, normalizeRadius, toPoint } from './utils/filters.js';
+import { haversineMeters, isValidCoordinate } from './utils/geo.js';
+import { createReferenceCache } from './utils/reference-cache.js';
+import { formatSingaporeTime } from './utils/sg-time.js';
+import { EXPRESSWAY_CATEGORY, getTrafficSpeedBandLinks } from './traffic-speed-bands.js';
+
+export interface TrafficCamera {
+  CameraID: string;
+  Latitude: number;
+  Longitude: number;
+  ImageLink: string;
+}
+
+export interface TrafficCameraFilters {
+  cameraId?: string;
+  expressway?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  limit?: number;
+}
+
+const EXPRESSWAYS: Record<string, string> = {
+  AYE: 'Ayer Rajah Expressway',
+  BKE: 'Bukit Timah Expressway',
+  CTE: 'Central Expressway',
+  ECP: 'East Coast Parkway',
+  KJE: 'Kranji Expressway',
+  KPE: 'Kallang-Paya Lebar Expressway',
+  MCE: 'Marina Coastal Expressway',
+  PIE: 'Pan Island Expressway',
+  SLE: 'Seletar Expressway',
+  TPE: 'Tampines Expressway',
+};
+
+const DEFAULT_RADIUS_M = 2000;
+const MAX_RADIUS_M = 20000;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+// How close a camera must be to an expressway link to count as covering it
+const EXPRESSWAY_MATCH_M = 200;
+// DataMall documents image links as valid for 5 minutes
+const DEFAULT_LINK_LIFETIME_MS = 5 * 60 * 1000;
+
+type Point = { latitude: number; longitude: number };
+
+/**
+ * Link end points of every expressway, keyed by upper-case road name.
+ */
+const expresswayGeometryCache = createReferenceCache<Map<string, Point[]>>({
+  name: 'expressway geometry',
+  load: async (apiKey) => {
+    const { links } = await getTrafficSpeedBandLinks(apiKey);
+    const geometry = new Map<string, Point[]>();
+    for (const link of links) {
+      if (String(link.RoadCategory) !== EXPRESSWAY_CATEGORY) {
+        continue;
+      }
+
+      const roadName = (link.RoadName ?? '').trim().toUpperCase();
+      const points = geometry.get(roadName) ?? [];
+      for (const point of [
+        { latitude: Number(link.StartLat), longitude: Number(link.StartLon) },
+        { latitude: Number(link.EndLat), longitude: Number(link.EndLon) },
+      ]) {
+        if (isValidCoordinate(point.latitude, point.longitude)) {
+          points.push(point);
+        }
+      }
+      geometry.set(roadName, points);
+    }
+    return geometry;
+  },
+  describe: (geometry) => `geometry for ${geometry.size} expressway roads`,
+});
+
+/**
+ * Resolve "PIE" or "Pan Island Expressway" to its code and full name.
+ */
+function resolveExpressway(expressway: string): { code: string; name: string } {
+  const wanted = expressway.trim().toUpperCase();
+  for (const [code, name] of Object.entries(EXPRESSWAYS)) {
+    if (code === wanted || name.toUpperCase() === wanted) {
+      return { code, name };
+    }
+  }
+
+  throw new Error(`Unknown expressway "${expressway}". Use one of: ${Object.keys(EXPRESSWAYS).join(', ')}`);
+}
+
+/**
+ * Link points of an expressway. Speed band road names may be the code or the
+ * full name, so both are accepted.
+ */
+async function getExpresswayPoints(expressway: { code: string; name: string }, apiKey: string): Promise<Point[]> {
+  const geometry = await expresswayGeometryCache.get(apiKey);
+  const points: Point[] = [];
+  for (const [roadName, roadPoints] of geometry) {
+    if (roadName === expressway.code || roadName === expressway.name.toUpperCase()) {
+      points.push(...roadPoints);
+    }
+  }
+
+  return points;
+}
+
+/**
+ * When an image link stops working: the signing time plus lifetime carried
+ * in the URL (X-Amz-Date / X-Amz-Expires), or the documented 5 minutes from
+ * `fetchedAt` if the URL does not say.
+ */
+function imageLinkExpiry(imageLink: string, fetchedAt: number): number {
+  try {
+    const params = new URL(imageLink).searchParams;
+    const signedAt = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(params.get('X-Amz-Date') ?? '');
+    const lifetimeSeconds = Number(params.get('X-Amz-Expires'));
+    if (signedAt && Number.isFinite(lifetimeSeconds) && lifetimeSeconds > 0) {
+      const [, year, month, day, hour, minute, second] = signedAt.map(Number);
+      return Date.UTC(year, month - 1, day, hour, minute, second) + lifetimeSeconds * 1000;
+    }
+  } catch {
+    // Not a URL we can parse; fall through to the documented lifetime
+  }
+
+  return fetchedAt + DEFAULT_LINK_LIFETIME_MS;
+}
+
+/**
+ * Current cameras filtered by ID, expressway and/or distance from a point
+ * (nearest first), each with its image link and link expiry time.
+ */
+export async function getTrafficCameras(filters: TrafficCameraFilters, apiKey: string) {
+  const origin = toPoint(filters.latitude, filters.longitude);
+  const radiusMeters = normalizeRadius(filters.radius, DEFAULT_RADIUS_M, MAX_RADIUS_M);
+  const limit = normalizeLimit(filters.limit, DEFAULT_LIMIT, MAX_LIMIT);
+  const expressway = filters.expressway?.trim() ? resolveExpressway(filters.expressway) : undefined;
+  const cameraId = filters.cameraId?.trim();
+
+  const [records, expresswayPoints] = await Promise.all([
+    fetchAllPages<TrafficCamera>(`${DATAMALL_BASE_URL}/Traffic-Imagesv2`, apiKey),
+    expressway ? getExpresswayPoints(expressway, apiKey) : Promise.resolve(undefined),
+  ]);
+  const fetchedAt = Date.now();
+
+  if (expresswayPoints && expresswayPoints.length === 0) {
+    throw new Error(`No road geometry found for ${expressway!.code}; try a location search instead`);
+  }
+
+  const nearExpressway = (camera: TrafficCamera) => !expresswayPoints || expresswayPoints.some(
+    (point) => haversineMeters(camera.Latitude, camera.Longitude, point.latitude, point.longitude) <= EXPRESSWAY_MATCH_M,
+  );
+
+  const cameras = records
+    .filter((camera) => isValidCoordinate(camera.Latitude, camera.Longitude))
+    .filter((camera) => !cameraId || String(camera.CameraID) === cameraId)
+    .filter(nearExpressway)
+    .map((camera) => ({
+      cameraId: String(camera.CameraID),
+      latitude: camera.Latitude,
+      longitude: camera.Longitude,
+      ...(expressway && { expressway: expressway.code }),
+      imageLink: camera.ImageLink,
+      imageLinkExpiresAt: formatSingaporeTime(imageLinkExpiry(camera.ImageLink, fetchedAt)),
+      ...(origin && {
+        distanceMeters: Math.round(haversineMeters(origin.latitude, origin.longitude, camera.Latitude, camera.Longitude)),
+      }),
+    }))
+    .filter((camera) => camera.distanceMeters === undefined || camera.distanceMeters <= radiusMeters);
+
+  if (origin) {
+    cameras.sort((a, b) => (a.distanceMeters ?? 0) - (b.distanceMeters ?? 0));
+  }
+
+  return {
+    fetchedAt: formatSingaporeTime(fetchedAt),
+    note: 'Image links are signed and stop working at imageLinkExpiresAt; call this tool again for fresh links.',
+    totalMatched: cameras.length,
+    ...(origin && { radiusMeters }),
+    cameras: cameras.slice(0, limit),
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Traffic incidents — filters the TrafficIncidents dataset by type, area
+ * (bounding box or radius) and road text, and turns the "(dd/m)HH:MM"
+ * prefix of each message into a proper timestamp.
+ */
+
+import { DATAMALL_BASE_URL, fetchAllPages } from './utils/datamall-client.js';
+import { matchesText, normalizeLimit, normalizeRadius, toBoundingBox, toPoint } from './utils/filters.js';
+import { haversineMeters, isWithinBounds } from './utils/geo.js';
+import { formatSingaporeTime, fromSingaporeLocal, singaporeDateParts } from './utils/sg-time.js';
+
+export interface TrafficIncident {
+  Type: string;
+  Latitude: number;
+  Longitude: number;
+  Message: string;
+}
+
+export interface TrafficIncidentFilters {
+  type?: string;
+  road?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  minLatitude?: number;
+  maxLatitude?: number;
+  minLongitude?: number;
+  maxLongitude?: number;
+  limit?: number;
+}
+
+export const INCIDENT_TYPES = [
+  'Accident',
+  'Roadwork',
+  'Vehicle breakdown',
+  'Weather',
+  'Obstacle',
+  'Road Block',
+  'Heavy Traffic',
+  'Misc.',
+  'Diversion',
+  'Unattended Vehicle',
+  'Fire',
+  'Plant Failure',
+  'Reverse Flow',
+];
+
+const MESSAGE_TIME_PATTERN = /^\s*\((\d{1,2})\/(\d{1,2})\)\s*(\d{1,2}):(\d{2})\s*/;
+const DEFAULT_RADIUS_M = 2000;
+const MAX_RADIUS_M = 20000;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Parse the "(dd/m)HH:MM" prefix DataMall puts on incident messages. The
+ * year is not given; it is taken from the current Singapore date, stepping
+ * back a year if that would put the incident in the future (e.g. a
+ * "(31/12)" message read on 1 January).
+ */
+export function parseIncidentMessage(message: string, nowMs: number = Date.now()): { reportedAt: string | null; description: string } {
+  const match = MESSAGE_TIME_PATTERN.exec(message ?? '');
+  if (!match) {
+    return { reportedAt: null, description: (message ?? '').trim() };
+  }
+
+  const [, day, month, hour, minute] = match.map(Number);
+  const { year } = singaporeDateParts(nowMs);
+  let reportedMs = fromSingaporeLocal(year, month, day, hour, minute);
+  if (reportedMs - nowMs > 24 * 60 * 60 * 1000) {
+    reportedMs = fromSingaporeLocal(year - 1, month, day, hour, minute);
+  }
+
+  return {
+    reportedAt: formatSingaporeTime(reportedMs),
+    description: message.slice(match[0].length).trim(),
+  };
+}
+
+/**
+ * Fetch current incidents and apply the filters. With a coordinate, results
+ * are limited to the radius and ordered nearest first; otherwise the most
+ * recently reported come first.
+ */
+export async function getTrafficIncidents(filters: TrafficIncidentFilters, apiKey: string) {
+  const records = await fetchAllPages<TrafficIncident>(`${DATAMALL_BASE_URL}/TrafficIncidents`, apiKey);
+
+  const origin = toPoint(filters.latitude, filters.longitude);
+  const bounds = toBoundingBox(filters);
+  const radiusMeters = normalizeRadius(filters.radius, DEFAULT_RADIUS_M, MAX_RADIUS_M);
+  const limit = normalizeLimit(filters.limit, DEFAULT_LIMIT, MAX_LIMIT);
+  const type = filters.type?.trim().toLowerCase();
+  const now = Date.now();
+
+  const incidents = records
+    .filter((incident) => !type || incident.Type?.toLowerCase() === type)
+    .filter((incident) => matchesText(incident.Message, filters.road))
+    .filter((incident) => !bounds || isWithinBounds(incident.Latitude, incident.Longitude, bounds))
+    .map((incident) => {
+      const distanceMeters = origin
+        ? Math.round(haversineMeters(origin.latitude, origin.longitude, incident.Latitude, incident.Longitude))
+        : undefined;
+
+      return {
+        type: incident.Type,
+        ...parseIncidentMessage(incident.Message, now),
+        latitude: incident.Latitude,
+        longitude: incident.Longitude,
+        ...(distanceMeters !== undefined && { distanceMeters }),
+      };
+    })
+    .filter((incident) => incident.distanceMeters === undefined || incident.distanceMeters <= radiusMeters);
+
+  if (origin) {
+    incidents.sort((a, b) => (a.distanceMeters ?? 0) - (b.distanceMeters ?? 0));
+  } else {
+    incidents.sort((a, b) => (b.reportedAt ?? '').localeCompare(a.reportedAt ?? ''));
+  }
+
+  return {
+    totalMatched: incidents.length,
+    ...(origin && { radiusMeters }),
+    incidents: incidents.slice(0, limit),
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Traffic speed bands — aggregates the v4/TrafficSpeedBands dataset into
+ * per-road congestion summaries.
+ *
+ * The dataset has one row per road link (tens of thousands island-wide), each
+ * with a speed band from 1 (0–9 km/h) to 8 (70 km/h and above). Returning the
+ * raw rows is useless to a model, so links are filtered by road name and area
+ * and grouped by road, reporting the average band and the slowest links.
+ *
+ * The whole dataset takes over a hundred pages to fetch, so it is kept for
+ * 5 minutes (its own refresh interval) and shared with the traffic camera
+ * expressway matching.
+ */
+
+import { DATAMALL_BASE_URL, fetchAllPages } from './utils/datamall-client.js';
+import { matchesText, normalizeLimit, normalizeRadius, toBoundingBox, toPoint } from './utils/filters.js';
+import { haversineMeters, isValidCoordinate, isWithinBounds } from './utils/geo.js';
+import { createReferenceCache } from './utils/reference-cache.js';
+import { formatSingaporeTime } from './utils/sg-time.js';
+
+export interface TrafficSpeedBand {
+  LinkID: string;
+  RoadName: string;
+  RoadCategory: string;
+  SpeedBand: number;
+  MinimumSpeed: string | number;
+  MaximumSpeed: string | number;
+  StartLon: string | number;
+  StartLat: string | number;
+  EndLon: string | number;
+  EndLat: string | number;
+}
+
+export interface TrafficSpeedBandFilters {
+  road?: string;
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
+  minLatitude?: number;
+  maxLatitude?: number;
+  minLongitude?: number;
+  maxLongitude?: number;
+  limit?: number;
+  slowestSegments?: number;
+}
+
+const DEFAULT_RADIUS_M = 2000;
+const MAX_RADIUS_M = 20000;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const DEFAULT_SLOWEST_SEGMENTS = 3;
+const MAX_SLOWEST_SEGMENTS = 10;
+// DataMall refreshes speed bands every 5 minutes
+const SPEED_BANDS_TTL_MS = 5 * 60 * 1000;
+
+export const EXPRESSWAY_CATEGORY = '1';
+
+const ROAD_CATEGORIES: Record<string, string> = {
+  [EXPRESSWAY_CATEGORY]: 'Expressway',
+  2: 'Major Arterial Road',
+  3: 'Arterial Road',
+  4: 'Minor Arterial Road',
+  5: 'Small Road',
+  6: 'Slip Road',
+  8: 'Short Tunnel',
+};
+
+interface SpeedLink {
+  linkId: string;
+  roadName: string;
+  roadCategory: string;
+  speedBand: number;
+  minimumSpeedKmh: number;
+  maximumSpeedKmh: number | null;
+  start: { latitude: number; longitude: number };
+  end: { latitude: number; longitude: number };
+}
+
+/**
+ * DataMall sends the coordinates and speeds as strings; band 8 has no upper
+ * speed, which arrives as an empty string or 999.
+ */
+function toSpeedLink(record: TrafficSpeedBand): SpeedLink {
+  const maximumSpeed = Number(record.MaximumSpeed);
+  return {
+    linkId: String(record.LinkID),
+    roadName: (record.RoadName ?? '').trim(),
+    roadCategory: ROAD_CATEGORIES[record.RoadCategory] ?? String(record.RoadCategory ?? ''),
+    speedBand: Number(record.SpeedBand),
+    minimumSpeedKmh: Number(record.MinimumSpeed) || 0,
+    maximumSpeedKmh: Number.isFinite(maximumSpeed) && maximumSpeed > 0 && maximumSpeed < 999 ? maximumSpeed : null,
+    start: { latitude: Number(record.StartLat), longitude: Number(record.StartLon) },
+    end: { latitude: Number(record.EndLat), longitude: Number(record.EndLon) },
+  };
+}
+
+/**
+ * Every link in the current speed band dataset.
+ */
+const speedBandsCache = createReferenceCache<{ fetchedAt: number; links: TrafficSpeedBand[] }>({
+  name: 'traffic speed bands',
+  ttlMs: SPEED_BANDS_TTL_MS,
+  load: async (apiKey) => {
+    const links = await fetchAllPages<TrafficSpeedBand>(`${DATAMALL_BASE_URL}/v4/TrafficSpeedBands`, apiKey, { maxRecords: 100000 });
+    return { fetchedAt: Date.now(), links };
+  },
+  describe: (snapshot) => `${snapshot.links.length} traffic speed band links`,
+});
+
+/**
+ * The speed band dataset and when it was fetched, from the shared cache.
+ */
+export async function getTrafficSpeedBandLinks(apiKey: string): Promise<{ fetchedAt: number; links: TrafficSpeedBand[] }> {
+  return speedBandsCache.get(apiKey);
+}
+
+function describeBand(averageBand: number): string {
+  if (averageBand < 3) {
+    return 'heavy';
+  }
+  if (averageBand < 5) {
+    return 'moderate';
+  }
+  return 'light';
+}
+
+function formatLink(link: SpeedLink) {
+  return {
+    linkId: link.linkId,
+    speedBand: link.speedBand,
+    speedRangeKmh: link.maximumSpeedKmh === null
+      ? `${link.minimumSpeedKmh}+`
+      : `${link.minimumSpeedKmh}-${link.maximumSpeedKmh}`,
+    start: link.start,
+    end: link.end,
+  };
+}
+
+/**
+ * Fetch current speed bands, keep the links matching the road and area
+ * filters, and summarize them per road, most congested first. A link is in
+ * the area if either of its ends is.
+ */
+export async function getTrafficSpeedBands(filters: TrafficSpeedBandFilters, apiKey: string) {
+  const origin = toPoint(filters.latitude, filters.longitude);
+  const bounds = toBoundingBox(filters);
+  const radiusMeters = normalizeRadius(filters.radius, DEFAULT_RADIUS_M, MAX_RADIUS_M);
+  const limit = normalizeLimit(filters.limit, DEFAULT_LIMIT, MAX_LIMIT);
+  const slowestCount = normalizeLimit(filters.slowestSegments, DEFAULT_SLOWEST_SEGMENTS, MAX_SLOWEST_SEGMENTS);
+
+  const { fetchedAt, links: records } = await getTrafficSpeedBandLinks(apiKey);
+
+  const inArea = (point: { latitude: number; longitude: number }) => isValidCoordinate(point.latitude, point.longitude)
+    && (!bounds || isWithinBounds(point.latitude, point.longitude, bounds))
+    && (!origin || haversineMeters(origin.latitude, origin.longitude, point.latitude, point.longitude) <= radiusMeters);
+
+  const links = records
+    .map(toSpeedLink)
+    .filter((link) => link.roadName && Number.isFinite(link.speedBand) && link.speedBand > 0)
+    .filter((link) => matchesText(link.roadName, filters.road))
+    .filter((link) => (!origin && !bounds) || inArea(link.start) || inArea(link.end));
+
+  const byRoad = new Map<string, SpeedLink[]>();
+  for (const link of links) {
+    const roadLinks = byRoad.get(link.roadName);
+    if (roadLinks) {
+      roadLinks.push(link);
+    } else {
+      byRoad.set(link.roadName, [link]);
+    }
+  }
+
+  const roads = [...byRoad.entries()]
+    .map(([roadName, roadLinks]) => {
+      const averageSpeedBand = roadLinks.reduce((sum, link) => sum + link.speedBand, 0) / roadLinks.length;
+      const slowest = [...roadLinks].sort((a, b) => a.speedBand - b.speedBand).slice(0, slowestCount);
+      return {
+        roadName,
+        roadCategory: roadLinks[0].roadCategory,
+        segmentCount: roadLinks.length,
+        averageSpeedBand: Math.round(averageSpeedBand * 10) / 10,
+        congestion: describeBand(averageSpeedBand),
+        slowestSpeedBand: slowest[0].speedBand,
+        slowestSegments: slowest.map(formatLink),
+      };
+    })
+    .sort((a, b) => a.averageSpeedBand - b.averageSpeedBand || a.roadName.localeCompare(b.roadName));
+
+  return {
+    dataAsOf: formatSingaporeTime(fetchedAt),
+    ...(origin && { radiusMeters }),
+    segmentsMatched: links.length,
+    roadsMatched: roads.length,
+    roads: roads.slice(0, limit),
+  };
+}
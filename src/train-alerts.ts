@@ -0,0 +1,348 @@
+/**
+ * Train service alerts from TrainServiceAlerts, normalized per line, with a
+ * history of snapshots so callers can ask what changed since they last
+ * looked.
+ *
+ * The dataset is one object: an overall status (1 normal, 2 disrupted), the
+ * affected segments (line, direction, station codes, and the stations with
+ * free public buses or free MRT shuttles) and the operator's messages.
+ * Station fields are comma-separated codes, occasionally with ranges such as
+ * "NE1-NE6"; both are expanded into named stations.
+ *
+ * Every call records a snapshot when the alerts differ from the previous
+ * one. The history is kept in memory for a day, so it covers what this
+ * server has seen: a disruption that starts and ends between two calls is
+ * not in it. A response's `cursor` names its snapshot; passing it back as
+ * `since` returns the changes from that snapshot to now.
+ */
+
+import axios from 'axios';
+import { getStationByCode, isTrainLine, TRAIN_LINE_NAMES, TRAIN_LINES } from './train-stations.js';
+import { DATAMALL_BASE_URL } from './utils/datamall-client.js';
+import { formatSingaporeTime, fromSingaporeLocal } from './utils/sg-time.js';
+
+export interface TrainAlertSegment {
+  Line: string;
+  Direction: string;
+  Stations: string;
+  FreePublicBus: string;
+  FreeMRTShuttle: string;
+  MRTShuttleDirection: string;
+}
+
+export interface TrainAlertMessage {
+  Content: string;
+  CreatedDate: string;
+}
+
+export interface TrainServiceAlerts {
+  Status: number;
+  AffectedSegments: TrainAlertSegment[];
+  Message: TrainAlertMessage[];
+}
+
+export interface TrainAlertQuery {
+  /** A cursor from an earlier response, or a time (ISO 8601) */
+  since?: string;
+}
+
+interface AlertStation {
+  code: string;
+  name?: string;
+}
+
+interface Disruption {
+  direction: string;
+  stations: AlertStation[];
+  freePublicBus: AlertStation[];
+  freeMrtShuttle: AlertStation[];
+  shuttleDirection?: string;
+}
+
+interface AlertState {
+  disrupted: boolean;
+  /** Keyed by line code; lines without an entry run normally */
+  disruptions: Record<string, Disruption[]>;
+  messages: Array<{ createdAt: string; content: string }>;
+}
+
+interface Snapshot {
+  sequence: number;
+  recordedAt: number;
+  state: AlertState;
+  /** JSON of `state`, to tell whether the next fetch changed anything */
+  fingerprint: string;
+}
+
+const HISTORY_MS = 24 * 60 * 60 * 1000;
+const MAX_SNAPSHOTS = 200;
+const STATION_RANGE_PATTERN = /^([A-Z]+)(\d+)\s*(?:-|TO)\s*([A-Z]+)?(\d+)$/;
+
+// Distinguishes cursors from before a restart, when sequences start over
+const HISTORY_ID = Date.now().toString(36);
+
+// The LRT loops are reported separately here but are one line elsewhere
+const LINE_ALIASES: Record<string, string> = {
+  SEL: 'SLRT',
+  SWL: 'SLRT',
+  PEL: 'PLRT',
+  PWL: 'PLRT',
+};
+
+const history: Snapshot[] = [];
+let nextSequence = 1;
+
+/**
+ * Station codes from a comma-separated field, with ranges like "NE1-NE6"
+ * expanded. Codes in a range that no station has (NE2) are skipped.
+ */
+export function expandStationCodes(field: string | undefined): string[] {
+  const codes: string[] = [];
+  for (const token of (field ?? '').toUpperCase().split(/[,;]/).map((part) => part.trim()).filter(Boolean)) {
+    const range = STATION_RANGE_PATTERN.exec(token);
+    if (!range) {
+      codes.push(token);
+      continue;
+    }
+    // "NS1-EW24" is an interchange's two codes, not a range
+    if (range[3] && range[3] !== range[1]) {
+      codes.push(`${range[1]}${range[2]}`, `${range[3]}${range[4]}`);
+      continue;
+    }
+
+    const [first, last] = [Number(range[2]), Number(range[4])];
+    const step = first <= last ? 1 : -1;
+    const expanded: string[] = [];
+    for (let number = first; number !== last + step; number += step) {
+      expanded.push(`${range[1]}${number}`);
+    }
+    const known = expanded.filter((code) => getStationByCode(code));
+    codes.push(...(known.length > 0 ? known : expanded));
+  }
+
+  return [...new Set(codes)];
+}
+
+function toStations(field: string | undefined): AlertStation[] {
+  return expandStationCodes(field).map((code) => {
+    const name = getStationByCode(code)?.name;
+    return name ? { code, name } : { code };
+  });
+}
+
+function describeDirection(direction: string | undefined): string {
+  const trimmed = direction?.trim() ?? '';
+  if (!trimmed || trimmed.toLowerCase() === 'both') {
+    return 'both directions';
+  }
+
+  return `towards ${trimmed}`;
+}
+
+/**
+ * A message's "YYYY-MM-DD HH:MM:SS" Singapore time as ISO 8601.
+ */
+function parseCreatedDate(value: string | undefined): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?/.exec(value?.trim() ?? '');
+  if (!match) {
+    return value ?? '';
+  }
+
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return formatSingaporeTime(fromSingaporeLocal(year, month, day, hour, minute) + (second || 0) * 1000);
+}
+
+function normalizeAlerts(alerts: TrainServiceAlerts | undefined): AlertState {
+  const disruptions: Record<string, Disruption[]> = {};
+  for (const segment of alerts?.AffectedSegments ?? []) {
+    const code = segment.Line?.trim().toUpperCase() ?? '';
+    const line = LINE_ALIASES[code] ?? code;
+    const shuttleDirection = segment.MRTShuttleDirection?.trim();
+    const disruption: Disruption = {
+      direction: describeDirection(segment.Direction),
+      stations: toStations(segment.Stations),
+      freePublicBus: toStations(segment.FreePublicBus),
+      freeMrtShuttle: toStations(segment.FreeMRTShuttle),
+      ...(shuttleDirection && { shuttleDirection: describeDirection(shuttleDirection) }),
+    };
+    disruptions[line] = [...(disruptions[line] ?? []), disruption];
+  }
+
+  return {
+    disrupted: Number(alerts?.Status) === 2 || Object.keys(disruptions).length > 0,
+    disruptions,
+    messages: (alerts?.Message ?? [])
+      .map((message) => ({ createdAt: parseCreatedDate(message.CreatedDate), content: message.Content?.trim() ?? '' }))
+      .filter((message) => message.content),
+  };
+}
+
+/**
+ * Add a snapshot if the state changed since the last one, and drop
+ * snapshots older than a day (always keeping the latest).
+ */
+function recordSnapshot(state: AlertState, now: number): Snapshot {
+  const fingerprint = JSON.stringify(state);
+  let latest = history[history.length - 1];
+  if (!latest || latest.fingerprint !== fingerprint) {
+    latest = { sequence: nextSequence++, recordedAt: now, state, fingerprint };
+    history.push(latest);
+  }
+
+  while (history.length > 1 && (history.length > MAX_SNAPSHOTS || now - history[0].recordedAt > HISTORY_MS)) {
+    history.shift();
+  }
+
+  return latest;
+}
+
+function toCursor(snapshot: Snapshot): string {
+  return `${HISTORY_ID}.${snapshot.sequence}`;
+}
+
+/**
+ * The snapshot a `since` argument points at, and a note when history does
+ * not reach back that far.
+ */
+function findSinceSnapshot(since: string): { snapshot: Snapshot; note?: string } {
+  const oldest = history[0];
+  const olderNote = `History only goes back to ${formatSingaporeTime(oldest.recordedAt)}; changes are counted from then.`;
+
+  const cursor = /^([a-z0-9]+)\.(\d+)$/.exec(since);
+  if (cursor) {
+    if (cursor[1] !== HISTORY_ID) {
+      return { snapshot: oldest, note: `That cursor is from before the server restarted. ${olderNote}` };
+    }
+
+    const sequence = Number(cursor[2]);
+    const snapshot = [...history].reverse().find((entry) => entry.sequence <= sequence);
+    return snapshot ? { snapshot } : { snapshot: oldest, note: olderNote };
+  }
+
+  const time = Date.parse(since);
+  if (Number.isNaN(time)) {
+    throw new Error('since must be a cursor from an earlier train_alerts response, or an ISO 8601 time');
+  }
+
+  const snapshot = [...history].reverse().find((entry) => entry.recordedAt <= time);
+  return snapshot ? { snapshot } : { snapshot: oldest, note: olderNote };
+}
+
+/**
+ * Every known line, then any other line code the alerts used.
+ */
+function allLines(...states: AlertState[]): string[] {
+  const extra = states.flatMap((state) => Object.keys(state.disruptions)).filter((line) => !isTrainLine(line));
+  return [...TRAIN_LINES, ...new Set(extra)];
+}
+
+function stationCodes(stations: AlertStation[]): string {
+  return stations.map((station) => station.code).join(', ');
+}
+
+/**
+ * What differs on each line between two states, in words.
+ */
+function diffLines(before: AlertState, after: AlertState) {
+  return allLines(before, after).flatMap((line) => {
+    const was = before.disruptions[line];
+    const now = after.disruptions[line];
+    if (!was && !now) {
+      return [];
+    }
+    if (!was) {
+      return [{ line, change: 'disrupted', detail: now!.map((disruption) => `${disruption.direction}: ${stationCodes(disruption.stations)}`).join('; ') }];
+    }
+    if (!now) {
+      return [{ line, change: 'restored', detail: 'Service back to normal' }];
+    }
+    if (JSON.stringify(was) === JSON.stringify(now)) {
+      return [];
+    }
+
+    const details: string[] = [];
+    const wasStations = new Set(was.flatMap((disruption) => disruption.stations.map((station) => station.code)));
+    const nowStations = new Set(now.flatMap((disruption) => disruption.stations.map((station) => station.code)));
+    const added = [...nowStations].filter((code) => !wasStations.has(code));
+    const removed = [...wasStations].filter((code) => !nowStations.has(code));
+    if (added.length > 0) {
+      details.push(`now also affects ${added.join(', ')}`);
+    }
+    if (removed.length > 0) {
+      details.push(`no longer affects ${removed.join(', ')}`);
+    }
+    if (JSON.stringify(was.map((disruption) => disruption.direction)) !== JSON.stringify(now.map((disruption) => disruption.direction))) {
+      details.push(`direction now ${now.map((disruption) => disruption.direction).join('; ')}`);
+    }
+
+    const bridging = (disruptions: Disruption[]) => JSON.stringify(disruptions.map((disruption) => [disruption.freePublicBus, disruption.freeMrtShuttle, disruption.shuttleDirection]));
+    if (bridging(was) !== bridging(now)) {
+      details.push('free bus or shuttle arrangements changed');
+    }
+
+    return [{ line, change: 'updated', detail: details.join('; ') || 'Alert details changed' }];
+  });
+}
+
+/**
+ * Current train service status per line, with affected stations, free bus
+ * and shuttle bridging and operator messages. With `since`, also the
+ * changes from that snapshot to now and the snapshots in between.
+ */
+export async function getTrainAlerts(query: TrainAlertQuery, apiKey: string) {
+  const response = await axios.get(`${DATAMALL_BASE_URL}/TrainServiceAlerts`, {
+    headers: { 'AccountKey': apiKey, 'accept': 'application/json' },
+  });
+
+  const now = Date.now();
+  const state = normalizeAlerts(response.data?.value);
+  const latest = recordSnapshot(state, now);
+
+  const lines = allLines(state).map((line) => {
+    const disruptions = state.disruptions[line];
+    return {
+      line,
+      lineName: isTrainLine(line) ? TRAIN_LINE_NAMES[line] : line,
+      status: disruptions ? 'disrupted' : 'normal',
+      ...(disruptions && { disruptions }),
+    };
+  });
+
+  const since = query.since?.trim();
+  let changes;
+  if (since) {
+    const { snapshot, note } = findSinceSnapshot(since);
+    const lineChanges = diffLines(snapshot.state, state);
+    const seenMessages = new Set(snapshot.state.messages.map((message) => `${message.createdAt} ${message.content}`));
+    const newMessages = state.messages.filter((message) => !seenMessages.has(`${message.createdAt} ${message.content}`));
+    const timeline = history
+      .filter((entry) => entry.sequence > snapshot.sequence)
+      .map((entry) => ({
+        at: formatSingaporeTime(entry.recordedAt),
+        disruptedLines: Object.keys(entry.state.disruptions),
+      }));
+    const unchanged = lineChanges.length === 0 && newMessages.length === 0;
+
+    changes = {
+      since: formatSingaporeTime(snapshot.recordedAt),
+      ...(note && { note }),
+      ...(unchanged && {
+        summary: timeline.length === 0
+          ? 'No changes'
+          : 'Alerts are back to how they were then; the timeline shows what happened in between',
+      }),
+      lines: lineChanges,
+      newMessages,
+      timeline,
+    };
+  }
+
+  return {
+    checkedAt: formatSingaporeTime(now),
+    status: state.disrupted ? 'disrupted' : 'normal',
+    cursor: toCursor(latest),
+    ...(changes && { changes }),
+    lines,
+    messages: state.messages,
+  };
+}
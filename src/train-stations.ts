@@ -0,0 +1,342 @@
+/**
+ * Bundled MRT/LRT station reference: every station's codes, name, lines and
+ * location. DataMall has no station list endpoint, and its train datasets
+ * identify stations only by code, one code per line, so this table is what
+ * turns "NS24" back into "Dhoby Ghaut" and "Dhoby Ghaut" into NS24, NE6 and
+ * CC1.
+ *
+ * Interchanges are one entry with several codes. Stations not yet open are
+ * left out; a code the APIs return that is not listed here is still shown,
+ * just without a name.
+ */
+
+export const TRAIN_LINES = ['CCL', 'CEL', 'CGL', 'DTL', 'EWL', 'NEL', 'NSL', 'BPL', 'SLRT', 'PLRT', 'TEL'] as const;
+
+export type TrainLine = typeof TRAIN_LINES[number];
+
+export const TRAIN_LINE_NAMES: Record<TrainLine, string> = {
+  CCL: 'Circle Line',
+  CEL: 'Circle Line Extension',
+  CGL: 'Changi Airport Branch',
+  DTL: 'Downtown Line',
+  EWL: 'East-West Line',
+  NEL: 'North-East Line',
+  NSL: 'North-South Line',
+  BPL: 'Bukit Panjang LRT',
+  SLRT: 'Sengkang LRT',
+  PLRT: 'Punggol LRT',
+  TEL: 'Thomson-East Coast Line',
+};
+
+// Longest prefix first, so "STC" is not read as an "S..." code
+const CODE_PREFIX_LINES: Array<[string, TrainLine]> = [
+  ['STC', 'SLRT'],
+  ['PTC', 'PLRT'],
+  ['NS', 'NSL'],
+  ['EW', 'EWL'],
+  ['CG', 'CGL'],
+  ['NE', 'NEL'],
+  ['CC', 'CCL'],
+  ['CE', 'CEL'],
+  ['DT', 'DTL'],
+  ['TE', 'TEL'],
+  ['BP', 'BPL'],
+  ['SE', 'SLRT'],
+  ['SW', 'SLRT'],
+  ['PE', 'PLRT'],
+  ['PW', 'PLRT'],
+];
+
+export interface StationCode {
+  code: string;
+  line: TrainLine;
+}
+
+export interface TrainStation {
+  name: string;
+  /** One code per line; more than one makes the station an interchange */
+  codes: StationCode[];
+  latitude: number;
+  longitude: number;
+}
+
+// [codes, name, latitude, longitude]; codes of an interchange joined with "/"
+const STATION_ROWS: Array<[string, string, number, number]> = [
+  // North-South Line
+  ['NS1/EW24', 'Jurong East', 1.3332, 103.7422],
+  ['NS2', 'Bukit Batok', 1.3490, 103.7496],
+  ['NS3', 'Bukit Gombak', 1.3587, 103.7518],
+  ['NS4/BP1', 'Choa Chu Kang', 1.3853, 103.7444],
+  ['NS5', 'Yew Tee', 1.3973, 103.7474],
+  ['NS7', 'Kranji', 1.4251, 103.7619],
+  ['NS8', 'Marsiling', 1.4326, 103.7740],
+  ['NS9/TE2', 'Woodlands', 1.4370, 103.7865],
+  ['NS10', 'Admiralty', 1.4406, 103.8010],
+  ['NS11', 'Sembawang', 1.4491, 103.8201],
+  ['NS12', 'Canberra', 1.4431, 103.8296],
+  ['NS13', 'Yishun', 1.4295, 103.8350],
+  ['NS14', 'Khatib', 1.4174, 103.8329],
+  ['NS15', 'Yio Chu Kang', 1.3817, 103.8449],
+  ['NS16', 'Ang Mo Kio', 1.3700, 103.8495],
+  ['NS17/CC15', 'Bishan', 1.3510, 103.8485],
+  ['NS18', 'Braddell', 1.3404, 103.8467],
+  ['NS19', 'Toa Payoh', 1.3327, 103.8474],
+  ['NS20', 'Novena', 1.3203, 103.8438],
+  ['NS21/DT11', 'Newton', 1.3138, 103.8381],
+  ['NS22/TE14', 'Orchard', 1.3043, 103.8320],
+  ['NS23', 'Somerset', 1.3007, 103.8390],
+  ['NS24/NE6/CC1', 'Dhoby Ghaut', 1.2990, 103.8455],
+  ['NS25/EW13', 'City Hall', 1.2931, 103.8520],
+  ['NS26/EW14', 'Raffles Place', 1.2840, 103.8514],
+  ['NS27/CE2/TE20', 'Marina Bay', 1.2763, 103.8546],
+  ['NS28', 'Marina South Pier', 1.2712, 103.8632],
+
+  // East-West Line and Changi Airport Branch
+  ['EW1', 'Pasir Ris', 1.3731, 103.9493],
+  ['EW2/DT32', 'Tampines', 1.3546, 103.9453],
+  ['EW3', 'Simei', 1.3432, 103.9533],
+  ['EW4', 'Tanah Merah', 1.3272, 103.9465],
+  ['EW5', 'Bedok', 1.3240, 103.9300],
+  ['EW6', 'Kembangan', 1.3210, 103.9129],
+  ['EW7', 'Eunos', 1.3197, 103.9030],
+  ['EW8/CC9', 'Paya Lebar', 1.3177, 103.8926],
+  ['EW9', 'Aljunied', 1.3164, 103.8829],
+  ['EW10', 'Kallang', 1.3114, 103.8714],
+  ['EW11', 'Lavender', 1.3073, 103.8630],
+  ['EW12/DT14', 'Bugis', 1.3009, 103.8559],
+  ['EW15', 'Tanjong Pagar', 1.2765, 103.8456],
+  ['EW16/NE3/TE17', 'Outram Park', 1.2803, 103.8395],
+  ['EW17', 'Tiong Bahru', 1.2861, 103.8270],
+  ['EW18', 'Redhill', 1.2896, 103.8168],
+  ['EW19', 'Queenstown', 1.2946, 103.8059],
+  ['EW20', 'Commonwealth', 1.3025, 103.7983],
+  ['EW21/CC22', 'Buona Vista', 1.3073, 103.7901],
+  ['EW22', 'Dover', 1.3114, 103.7786],
+  ['EW23', 'Clementi', 1.3151, 103.7652],
+  ['EW25', 'Chinese Garden', 1.3425, 103.7326],
+  ['EW26', 'Lakeside', 1.3442, 103.7210],
+  ['EW27', 'Boon Lay', 1.3386, 103.7058],
+  ['EW28', 'Pioneer', 1.3376, 103.6974],
+  ['EW29', 'Joo Koon', 1.3277, 103.6783],
+  ['EW30', 'Gul Circle', 1.3195, 103.6606],
+  ['EW31', 'Tuas Crescent', 1.3210, 103.6492],
+  ['EW32', 'Tuas West Road', 1.3300, 103.6397],
+  ['EW33', 'Tuas Link', 1.3404, 103.6369],
+  ['CG1/DT35', 'Expo', 1.3355, 103.9614],
+  ['CG2', 'Changi Airport', 1.3574, 103.9884],
+
+  // North-East Line
+  ['NE1/CC29', 'HarbourFront', 1.2653, 103.8220],
+  ['NE4/DT19', 'Chinatown', 1.2844, 103.8436],
+  ['NE5', 'Clarke Quay', 1.2886, 103.8465],
+  ['NE7/DT12', 'Little India', 1.3067, 103.8493],
+  ['NE8', 'Farrer Park', 1.3124, 103.8543],
+  ['NE9', 'Boon Keng', 1.3195, 103.8617],
+  ['NE10', 'Potong Pasir', 1.3313, 103.8688],
+  ['NE11', 'Woodleigh', 1.3392, 103.8708],
+  ['NE12/CC13', 'Serangoon', 1.3498, 103.8737],
+  ['NE13', 'Kovan', 1.3601, 103.8850],
+  ['NE14', 'Hougang', 1.3713, 103.8924],
+  ['NE15', 'Buangkok', 1.3829, 103.8929],
+  ['NE16/STC', 'Sengkang', 1.3916, 103.8954],
+  ['NE17/PTC', 'Punggol', 1.4052, 103.9024],
+  ['NE18', 'Punggol Coast', 1.4155, 103.9107],
+
+  // Circle Line and Circle Line Extension
+  ['CC2', 'Bras Basah', 1.2969, 103.8507],
+  ['CC3', 'Esplanade', 1.2934, 103.8555],
+  ['CC4/DT15', 'Promenade', 1.2932, 103.8611],
+  ['CC5', 'Nicoll Highway', 1.2999, 103.8637],
+  ['CC6', 'Stadium', 1.3029, 103.8753],
+  ['CC7', 'Mountbatten', 1.3062, 103.8828],
+  ['CC8', 'Dakota', 1.3083, 103.8888],
+  ['CC10/DT26', 'MacPherson', 1.3266, 103.8899],
+  ['CC11', 'Tai Seng', 1.3359, 103.8878],
+  ['CC12', 'Bartley', 1.3426, 103.8797],
+  ['CC14', 'Lorong Chuan', 1.3516, 103.8642],
+  ['CC16', 'Marymount', 1.3487, 103.8394],
+  ['CC17/TE9', 'Caldecott', 1.3375, 103.8395],
+  ['CC19/DT9', 'Botanic Gardens', 1.3224, 103.8152],
+  ['CC20', 'Farrer Road', 1.3175, 103.8075],
+  ['CC21', 'Holland Village', 1.3118, 103.7961],
+  ['CC23', 'one-north', 1.2995, 103.7874],
+  ['CC24', 'Kent Ridge', 1.2935, 103.7846],
+  ['CC25', 'Haw Par Villa', 1.2825, 103.7819],
+  ['CC26', 'Pasir Panjang', 1.2762, 103.7914],
+  ['CC27', 'Labrador Park', 1.2722, 103.8026],
+  ['CC28', 'Telok Blangah', 1.2707, 103.8098],
+  ['CE1/DT16', 'Bayfront', 1.2819, 103.8590],
+
+  // Downtown Line
+  ['DT1/BP6', 'Bukit Panjang', 1.3786, 103.7618],
+  ['DT2', 'Cashew', 1.3690, 103.7646],
+  ['DT3', 'Hillview', 1.3627, 103.7673],
+  ['DT4', 'Hume', 1.3542, 103.7689],
+  ['DT5', 'Beauty World', 1.3412, 103.7758],
+  ['DT6', 'King Albert Park', 1.3356, 103.7834],
+  ['DT7', 'Sixth Avenue', 1.3306, 103.7972],
+  ['DT8', 'Tan Kah Kee', 1.3259, 103.8074],
+  ['DT10/TE11', 'Stevens', 1.3200, 103.8259],
+  ['DT13', 'Rochor', 1.3039, 103.8526],
+  ['DT17', 'Downtown', 1.2795, 103.8527],
+  ['DT18', 'Telok Ayer', 1.2821, 103.8486],
+  ['DT20', 'Fort Canning', 1.2921, 103.8444],
+  ['DT21', 'Bencoolen', 1.2985, 103.8500],
+  ['DT22', 'Jalan Besar', 1.3052, 103.8552],
+  ['DT23', 'Bendemeer', 1.3138, 103.8630],
+  ['DT24', 'Geylang Bahru', 1.3213, 103.8716],
+  ['DT25', 'Mattar', 1.3268, 103.8832],
+  ['DT27', 'Ubi', 1.3300, 103.8990],
+  ['DT28', 'Kaki Bukit', 1.3349, 103.9084],
+  ['DT29', 'Bedok North', 1.3348, 103.9180],
+  ['DT30', 'Bedok Reservoir', 1.3365, 103.9323],
+  ['DT31', 'Tampines West', 1.3455, 103.9384],
+  ['DT33', 'Tampines East', 1.3562, 103.9552],
+  ['DT34', 'Upper Changi', 1.3418, 103.9615],
+
+  // Thomson-East Coast Line
+  ['TE1', 'Woodlands North', 1.4482, 103.7855],
+  ['TE3', 'Woodlands South', 1.4275, 103.7934],
+  ['TE4', 'Springleaf', 1.3976, 103.8180],
+  ['TE5', 'Lentor', 1.3848, 103.8362],
+  ['TE6', 'Mayflower', 1.3716, 103.8365],
+  ['TE7', 'Bright Hill', 1.3622, 103.8334],
+  ['TE8', 'Upper Thomson', 1.3541, 103.8335],
+  ['TE12', 'Napier', 1.3068, 103.8194],
+  ['TE13', 'Orchard Boulevard', 1.3024, 103.8243],
+  ['TE15', 'Great World', 1.2935, 103.8317],
+  ['TE16', 'Havelock', 1.2884, 103.8339],
+  ['TE18', 'Maxwell', 1.2806, 103.8443],
+  ['TE19', 'Shenton Way', 1.2774, 103.8502],
+  ['TE22', 'Gardens by the Bay', 1.2790, 103.8688],
+  ['TE23', 'Tanjong Rhu', 1.2975, 103.8737],
+  ['TE24', 'Katong Park', 1.2977, 103.8854],
+  ['TE25', 'Tanjong Katong', 1.2995, 103.8975],
+  ['TE26', 'Marine Parade', 1.3027, 103.9059],
+  ['TE27', 'Marine Terrace', 1.3069, 103.9154],
+  ['TE28', 'Siglap', 1.3100, 103.9302],
+  ['TE29', 'Bayshore', 1.3133, 103.9423],
+
+  // Bukit Panjang LRT
+  ['BP2', 'South View', 1.3802, 103.7453],
+  ['BP3', 'Keat Hong', 1.3786, 103.7491],
+  ['BP4', 'Teck Whye', 1.3765, 103.7537],
+  ['BP5', 'Phoenix', 1.3786, 103.7580],
+  ['BP7', 'Petir', 1.3778, 103.7667],
+  ['BP8', 'Pending', 1.3762, 103.7711],
+  ['BP9', 'Bangkit', 1.3802, 103.7727],
+  ['BP10', 'Fajar', 1.3845, 103.7708],
+  ['BP11', 'Segar', 1.3877, 103.7696],
+  ['BP12', 'Jelapang', 1.3867, 103.7644],
+  ['BP13', 'Senja', 1.3826, 103.7624],
+
+  // Sengkang LRT
+  ['SE1', 'Compassvale', 1.3945, 103.9005],
+  ['SE2', 'Rumbia', 1.3915, 103.9059],
+  ['SE3', 'Bakau', 1.3880, 103.9055],
+  ['SE4', 'Kangkar', 1.3838, 103.9023],
+  ['SE5', 'Ranggung', 1.3841, 103.8975],
+  ['SW1', 'Cheng Lim', 1.3962, 103.8937],
+  ['SW2', 'Farmway', 1.3972, 103.8892],
+  ['SW3', 'Kupang', 1.3981, 103.8813],
+  ['SW4', 'Thanggam', 1.3973, 103.8756],
+  ['SW5', 'Fernvale', 1.3920, 103.8762],
+  ['SW6', 'Layar', 1.3920, 103.8800],
+  ['SW7', 'Tongkang', 1.3895, 103.8858],
+  ['SW8', 'Renjong', 1.3866, 103.8904],
+
+  // Punggol LRT
+  ['PE1', 'Cove', 1.3994, 103.9058],
+  ['PE2', 'Meridian', 1.3970, 103.9090],
+  ['PE3', 'Coral Edge', 1.3940, 103.9126],
+  ['PE4', 'Riviera', 1.3945, 103.9162],
+  ['PE5', 'Kadaloor', 1.3996, 103.9165],
+  ['PE6', 'Oasis', 1.4023, 103.9127],
+  ['PE7', 'Damai', 1.4052, 103.9086],
+  ['PW1', 'Sam Kee', 1.4097, 103.9049],
+  ['PW2', 'Teck Lee', 1.4128, 103.9064],
+  ['PW3', 'Punggol Point', 1.4168, 103.9067],
+  ['PW4', 'Samudera', 1.4159, 103.9022],
+  ['PW5', 'Nibong', 1.4118, 103.9003],
+  ['PW6', 'Sumang', 1.4085, 103.8985],
+  ['PW7', 'Soo Teck', 1.4053, 103.8973],
+];
+
+/**
+ * The line a station code belongs to, from its prefix ("NS24" is on the NSL).
+ */
+export function lineOfCode(code: string): TrainLine | undefined {
+  const upper = code.trim().toUpperCase();
+  return CODE_PREFIX_LINES.find(([prefix]) => upper.startsWith(prefix))?.[1];
+}
+
+export function isTrainLine(value: string): value is TrainLine {
+  return (TRAIN_LINES as readonly string[]).includes(value);
+}
+
+/**
+ * An upper-case train line argument, or an error naming the valid codes.
+ */
+export function normalizeTrainLine(value: string | undefined): TrainLine | undefined {
+  const line = value?.trim().toUpperCase();
+  if (!line) {
+    return undefined;
+  }
+  if (!isTrainLine(line)) {
+    throw new Error(`Unknown trainLine "${value}". Use one of: ${TRAIN_LINES.join(', ')}`);
+  }
+
+  return line;
+}
+
+const STATIONS: TrainStation[] = STATION_ROWS.map(([codes, name, latitude, longitude]) => ({
+  name,
+  codes: codes.split('/').map((code) => ({ code, line: lineOfCode(code)! })),
+  latitude,
+  longitude,
+}));
+
+const STATIONS_BY_CODE = new Map(STATIONS.flatMap((station) => station.codes.map(({ code }) => [code, station] as const)));
+
+// Names compared without case, spaces or punctuation, so "one north" finds "one-north"
+function nameKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * The station with a code, e.g. "NE6" gives Dhoby Ghaut.
+ */
+export function getStationByCode(code: string): TrainStation | undefined {
+  return STATIONS_BY_CODE.get(code.trim().toUpperCase());
+}
+
+/**
+ * Stations matching a code or name. An exact code or name match returns just
+ * that station; otherwise every station whose name contains the text, so
+ * "Tampines" is one station but "Marina" is Marina Bay and Marina South Pier.
+ */
+export function findStations(query: string): TrainStation[] {
+  const byCode = getStationByCode(query);
+  if (byCode) {
+    return [byCode];
+  }
+
+  const key = nameKey(query);
+  if (!key) {
+    return [];
+  }
+
+  const exact = STATIONS.find((station) => nameKey(station.name) === key);
+  if (exact) {
+    return [exact];
+  }
+
+  return STATIONS.filter((station) => nameKey(station.name).includes(key));
+}
+
+/**
+ * A station's codes joined the way LTA signs them, e.g. "NS24/NE6/CC1".
+ */
+export function formatStationCodes(station: TrainStation): string {
+  return station.codes.map(({ code }) => code).join('/');
+}
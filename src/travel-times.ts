@@ -0,0 +1,138 @@
+/**
+ * Expressway travel times — filters the EstTravelTimes dataset and sums
+ * segment times between two named points on the same expressway.
+ *
+ * Each record is one segment (StartPoint → EndPoint) of an expressway in one
+ * direction, with FarEndPoint naming where that direction is heading. Segments
+ * of a direction chain end-to-start, which is how a point-to-point summary
+ * finds the segments in between.
+ */
+
+import { DATAMALL_BASE_URL, fetchAllPages } from './utils/datamall-client.js';
+import { matchesText } from './utils/filters.js';
+
+export interface TravelTimeSegment {
+  Name: string;
+  Direction: number;
+  FarEndPoint: string;
+  StartPoint: string;
+  EndPoint: string;
+  EstTime: number;
+}
+
+export interface TravelTimeFilters {
+  expressway?: string;
+  direction?: number;
+  startPoint?: string;
+  endPoint?: string;
+  mode?: 'segments' | 'summary';
+}
+
+function formatSegment(segment: TravelTimeSegment) {
+  return {
+    expressway: segment.Name,
+    direction: segment.Direction,
+    farEndPoint: segment.FarEndPoint,
+    startPoint: segment.StartPoint,
+    endPoint: segment.EndPoint,
+    estimatedMinutes: segment.EstTime,
+  };
+}
+
+/**
+ * Order one direction's segments by following EndPoint → StartPoint links,
+ * starting from the segment nothing leads into. Falls back to dataset order
+ * if the links do not form a single chain.
+ */
+function chainSegments(segments: TravelTimeSegment[]): TravelTimeSegment[] {
+  const byStart = new Map(segments.map((segment) => [segment.StartPoint, segment]));
+  const endPoints = new Set(segments.map((segment) => segment.EndPoint));
+  const first = segments.find((segment) => !endPoints.has(segment.StartPoint));
+  if (!first) {
+    return segments;
+  }
+
+  const chain: TravelTimeSegment[] = [];
+  const seen = new Set<TravelTimeSegment>();
+  let current: TravelTimeSegment | undefined = first;
+  while (current && !seen.has(current)) {
+    chain.push(current);
+    seen.add(current);
+    current = byStart.get(current.EndPoint);
+  }
+
+  return chain.length === segments.length ? chain : segments;
+}
+
+/**
+ * Sum segment times from `from` to `to` along one direction of an
+ * expressway. `to` may also name the direction's far end point, meaning
+ * "to the end of the expressway".
+ */
+function summarizeDirection(segments: TravelTimeSegment[], from: string, to: string) {
+  const chain = chainSegments(segments);
+  const startIndex = chain.findIndex((segment) => matchesText(segment.StartPoint, from));
+  if (startIndex < 0) {
+    return undefined;
+  }
+
+  let endIndex = chain.findIndex((segment, index) => index >= startIndex && matchesText(segment.EndPoint, to));
+  if (endIndex < 0 && matchesText(chain[0].FarEndPoint, to)) {
+    endIndex = chain.length - 1;
+  }
+  if (endIndex < 0) {
+    return undefined;
+  }
+
+  const included = chain.slice(startIndex, endIndex + 1);
+  return {
+    expressway: chain[0].Name,
+    direction: chain[0].Direction,
+    farEndPoint: chain[0].FarEndPoint,
+    from: included[0].StartPoint,
+    to: included[included.length - 1].EndPoint,
+    totalMinutes: included.reduce((sum, segment) => sum + segment.EstTime, 0),
+    segments: included.map(formatSegment),
+  };
+}
+
+/**
+ * List travel time segments matching the filters, or in summary mode, the
+ * total time between `startPoint` and `endPoint` on one expressway.
+ */
+export async function getTravelTimes(filters: TravelTimeFilters, apiKey: string) {
+  const records = await fetchAllPages<TravelTimeSegment>(`${DATAMALL_BASE_URL}/EstTravelTimes`, apiKey);
+  const expressway = filters.expressway?.trim().toUpperCase();
+
+  const matching = records
+    .filter((segment) => !expressway || segment.Name?.toUpperCase() === expressway)
+    .filter((segment) => typeof filters.direction !== 'number' || segment.Direction === filters.direction);
+
+  if (filters.mode === 'summary') {
+    if (!expressway || !filters.startPoint?.trim() || !filters.endPoint?.trim()) {
+      throw new Error('Summary mode needs expressway, startPoint and endPoint');
+    }
+
+    for (const direction of [...new Set(matching.map((segment) => segment.Direction))]) {
+      const summary = summarizeDirection(
+        matching.filter((segment) => segment.Direction === direction),
+        filters.startPoint,
+        filters.endPoint,
+      );
+      if (summary) {
+        return summary;
+      }
+    }
+
+    throw new Error(`Could not find "${filters.startPoint}" followed by "${filters.endPoint}" on ${expressway}`);
+  }
+
+  const segments = matching
+    .filter((segment) => matchesText(segment.StartPoint, filters.startPoint))
+    .filter((segment) => matchesText(segment.EndPoint, filters.endPoint));
+
+  return {
+    totalSegments: segments.length,
+    segments: segments.map(formatSegment),
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * LTA DataMall HTTP client helpers.
+ *
+ * List datasets (bus stops, carparks, incidents, travel times...) return at
+ * most 500 records per call and are paged with `$skip`. `fetchAllPages`
+ * walks the pages until a short or empty page comes back, with a safety
+ * valve so a misbehaving endpoint cannot loop forever. Tools over list
+ * datasets should always go through it; a plain GET silently truncates.
+ */
+
+import axios from 'axios';
+
+export const DATAMALL_BASE_URL = 'https://datamall2.mytransport.sg/ltaodataservice';
+
+const PAGE_SIZE = 500;
+const DEFAULT_MAX_RECORDS = 20000;
+
+export interface FetchAllPagesOptions {
+  params?: Record<string, string>;
+  /** Stop paging once this many records have been requested. */
+  maxRecords?: number;
+}
+
+/**
+ * Fetch every record of a paginated DataMall dataset.
+ */
+export async function fetchAllPages<T>(
+  url: string,
+  apiKey: string,
+  options: FetchAllPagesOptions = {},
+): Promise<T[]> {
+  const maxRecords = options.maxRecords ?? DEFAULT_MAX_RECORDS;
+  const records: T[] = [];
+  let skip = 0;
+
+  while (true) {
+    const response = await axios.get(url, {
+      params: { ...options.params, $skip: skip },
+      headers: { 'AccountKey': apiKey, 'accept': 'application/json' },
+    });
+
+    const page: T[] = response.data?.value || [];
+    if (page.length === 0) break;
+
+    records.push(...page);
+    skip += PAGE_SIZE;
+
+    if (page.length < PAGE_SIZE) break;
+
+    // Safety valve
+    if (skip > maxRecords) break;
+  }
+
+  return records;
+}
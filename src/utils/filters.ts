@@ -0,0 +1,70 @@
+/**
+ * Argument normalization shared by the filtering tools. Tool arguments come
+ * straight from the model, so numbers may be missing, fractional or out of
+ * range and text may have stray whitespace or casing.
+ */
+
+import { BoundingBox, isValidCoordinate } from './geo.js';
+
+/**
+ * Clamp a result limit to [1, max], falling back to `defaultLimit`.
+ */
+export function normalizeLimit(limit: unknown, defaultLimit: number, maxLimit: number): number {
+  if (typeof limit !== 'number' || !Number.isFinite(limit)) {
+    return defaultLimit;
+  }
+
+  return Math.max(1, Math.min(Math.floor(limit), maxLimit));
+}
+
+/**
+ * Clamp a search radius in metres to (0, max], falling back to `defaultMeters`.
+ */
+export function normalizeRadius(radius: unknown, defaultMeters: number, maxMeters: number): number {
+  if (typeof radius !== 'number' || !Number.isFinite(radius) || radius <= 0) {
+    return defaultMeters;
+  }
+
+  return Math.min(radius, maxMeters);
+}
+
+/**
+ * Case-insensitive substring match. An empty or missing needle matches anything.
+ */
+export function matchesText(haystack: string | null | undefined, needle: string | undefined): boolean {
+  const trimmed = needle?.trim().toLowerCase();
+  if (!trimmed) {
+    return true;
+  }
+
+  return (haystack ?? '').toLowerCase().includes(trimmed);
+}
+
+/**
+ * Return the point if both coordinates are usable, otherwise undefined.
+ */
+export function toPoint(latitude: unknown, longitude: unknown): { latitude: number; longitude: number } | undefined {
+  return isValidCoordinate(latitude, longitude)
+    ? { latitude: latitude as number, longitude: longitude as number }
+    : undefined;
+}
+
+/**
+ * Build a bounding box if all four edges are numbers, otherwise undefined.
+ * Edges given the wrong way round are swapped.
+ */
+export function toBoundingBox(args: Partial<Record<keyof BoundingBox, unknown>>): BoundingBox | undefined {
+  const { minLatitude, maxLatitude, minLongitude, maxLongitude } = args;
+  const edges = [minLatitude, maxLatitude, minLongitude, maxLongitude];
+  if (!edges.every((edge) => typeof edge === 'number' && Number.isFinite(edge))) {
+    return undefined;
+  }
+
+  const [lat1, lat2, lon1, lon2] = edges as number[];
+  return {
+    minLatitude: Math.min(lat1, lat2),
+    maxLatitude: Math.max(lat1, lat2),
+    minLongitude: Math.min(lon1, lon2),
+    maxLongitude: Math.max(lon1, lon2),
+  };
+}
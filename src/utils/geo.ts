@@ -0,0 +1,92 @@
+/**
+ * Geographic helpers for the proximity-based tools.
+ *
+ * Distances are great-circle (haversine) distances in metres. Walking
+ * estimates inflate the straight-line distance by a detour factor to account
+ * for the street grid, then convert at an average walking pace.
+ */
+
+const EARTH_RADIUS_M = 6_371_000;
+const WALKING_DETOUR_FACTOR = 1.25;
+const WALKING_SPEED_M_PER_MIN = 80; // ~4.8 km/h
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two coordinates, in metres.
+ */
+export function haversineMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Estimate walking distance (metres) and time (minutes) from a straight-line distance.
+ */
+export function estimateWalk(distanceMeters: number): { walkingDistanceMeters: number; walkingMinutes: number } {
+  const walkingDistanceMeters = Math.round(distanceMeters * WALKING_DETOUR_FACTOR);
+  return {
+    walkingDistanceMeters,
+    walkingMinutes: Math.max(1, Math.round(walkingDistanceMeters / WALKING_SPEED_M_PER_MIN)),
+  };
+}
+
+/**
+ * True if the value is a usable coordinate (DataMall uses 0 for "unknown").
+ */
+export function isValidCoordinate(latitude: unknown, longitude: unknown): boolean {
+  return typeof latitude === 'number' && typeof longitude === 'number'
+    && Number.isFinite(latitude) && Number.isFinite(longitude)
+    && !(latitude === 0 && longitude === 0);
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+/**
+ * True if the point lies inside the box (edges inclusive).
+ */
+export function isWithinBounds(latitude: number, longitude: number, bounds: BoundingBox): boolean {
+  return latitude >= bounds.minLatitude && latitude <= bounds.maxLatitude
+    && longitude >= bounds.minLongitude && longitude <= bounds.maxLongitude;
+}
+
+/**
+ * Distance in metres from a point to the segment between two others, and
+ * how far along the segment (0 to 1) the closest point lies. Uses a flat
+ * projection around the point, which is accurate at city scale.
+ */
+export function distanceToSegment(
+  latitude: number,
+  longitude: number,
+  start: { latitude: number; longitude: number },
+  end: { latitude: number; longitude: number },
+): { distanceMeters: number; fraction: number } {
+  const metersPerDegreeLat = (Math.PI / 180) * EARTH_RADIUS_M;
+  const metersPerDegreeLon = metersPerDegreeLat * Math.cos(toRadians(latitude));
+  const project = (point: { latitude: number; longitude: number }) => ({
+    x: (point.longitude - longitude) * metersPerDegreeLon,
+    y: (point.latitude - latitude) * metersPerDegreeLat,
+  });
+
+  const a = project(start);
+  const b = project(end);
+  const lengthSquared = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  const fraction = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, -(a.x * (b.x - a.x) + a.y * (b.y - a.y)) / lengthSquared));
+
+  return {
+    distanceMeters: Math.hypot(a.x + fraction * (b.x - a.x), a.y + fraction * (b.y - a.y)),
+    fraction,
+  };
+}
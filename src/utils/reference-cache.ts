@@ -0,0 +1,81 @@
+/**
+ * Long-lived in-memory cache for DataMall reference datasets (routes,
+ * services, rates...) that change rarely.
+ *
+ * Loading is lazy and deduplicated across concurrent callers. When a refresh
+ * fails but an earlier load succeeded, the stale value keeps being served and
+ * the refresh is retried after a short back-off.
+ */
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const REFRESH_RETRY_DELAY_MS = 5 * 60 * 1000; // 5 minutes
+
+export interface ReferenceCacheOptions<T> {
+  /** Human-readable dataset name, used in log lines. */
+  name: string;
+  load: (apiKey: string) => Promise<T>;
+  /** Describe a loaded value for the log line (e.g. record count). */
+  describe?: (value: T) => string;
+  ttlMs?: number;
+}
+
+export interface ReferenceCache<T> {
+  get(apiKey: string): Promise<T>;
+  isLoaded(): boolean;
+  /** The last loaded value, possibly stale, without loading. */
+  peek(): T | undefined;
+}
+
+export function createReferenceCache<T>(options: ReferenceCacheOptions<T>): ReferenceCache<T> {
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+
+  let value: T | undefined;
+  let loadedAt = 0;
+  let loadingPromise: Promise<T> | null = null;
+  let lastRefreshFailureAt = 0;
+
+  async function get(apiKey: string): Promise<T> {
+    const now = Date.now();
+    if (value !== undefined && now - loadedAt < ttlMs) {
+      return value;
+    }
+
+    if (value !== undefined && now - lastRefreshFailureAt < REFRESH_RETRY_DELAY_MS) {
+      return value;
+    }
+
+    if (loadingPromise) {
+      return loadingPromise;
+    }
+
+    loadingPromise = (async () => {
+      try {
+        console.error(`Loading ${options.name} from LTA DataMall...`);
+        const loaded = await options.load(apiKey);
+        value = loaded;
+        loadedAt = Date.now();
+        lastRefreshFailureAt = 0;
+        console.error(`Loaded ${options.describe ? options.describe(loaded) : options.name}`);
+        return loaded;
+      } catch (error) {
+        console.error(`Failed to load ${options.name}:`, error);
+        // If we have stale data, keep using it
+        if (value === undefined) {
+          throw error;
+        }
+        lastRefreshFailureAt = Date.now();
+        return value;
+      } finally {
+        loadingPromise = null;
+      }
+    })();
+
+    return loadingPromise;
+  }
+
+  return {
+    get,
+    isLoaded: () => value !== undefined,
+    peek: () => value,
+  };
+}
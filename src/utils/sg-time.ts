@@ -0,0 +1,78 @@
+/**
+ * Singapore time helpers. Singapore is UTC+8 all year (no daylight saving),
+ * so conversions are a fixed offset and do not depend on the host time zone.
+ */
+
+export const SGT_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Format an epoch timestamp as an ISO 8601 string in Singapore time,
+ * e.g. "2025-01-31T18:05:00+08:00".
+ */
+export function formatSingaporeTime(epochMs: number): string {
+  const sgt = new Date(epochMs + SGT_OFFSET_MS);
+  return `${sgt.getUTCFullYear()}-${pad(sgt.getUTCMonth() + 1)}-${pad(sgt.getUTCDate())}`
+    + `T${pad(sgt.getUTCHours())}:${pad(sgt.getUTCMinutes())}:${pad(sgt.getUTCSeconds())}+08:00`;
+}
+
+/**
+ * Singapore calendar date of an epoch timestamp as "YYYY-MM-DD".
+ */
+export function formatSingaporeDate(epochMs: number = Date.now()): string {
+  return formatSingaporeTime(epochMs).slice(0, 10);
+}
+
+/**
+ * Whole minutes from `nowMs` until `epochMs`, never negative.
+ */
+export function minutesUntil(epochMs: number, nowMs: number = Date.now()): number {
+  return Math.max(0, Math.round((epochMs - nowMs) / 60000));
+}
+
+/**
+ * Calendar fields of an epoch timestamp in Singapore time.
+ * `month` is 1-based; `dayOfWeek` is 0 (Sunday) to 6 (Saturday).
+ */
+export function singaporeDateParts(epochMs: number = Date.now()) {
+  const sgt = new Date(epochMs + SGT_OFFSET_MS);
+  return {
+    year: sgt.getUTCFullYear(),
+    month: sgt.getUTCMonth() + 1,
+    day: sgt.getUTCDate(),
+    hour: sgt.getUTCHours(),
+    minute: sgt.getUTCMinutes(),
+    dayOfWeek: sgt.getUTCDay(),
+  };
+}
+
+/**
+ * Epoch timestamp of a Singapore local date and time. `month` is 1-based.
+ */
+export function fromSingaporeLocal(year: number, month: number, day: number, hour: number = 0, minute: number = 0): number {
+  return Date.UTC(year, month - 1, day, hour, minute) - SGT_OFFSET_MS;
+}
+
+/**
+ * Minutes after midnight of a 24-hour "HH:MM" time, or undefined if the text
+ * is not one. "24:00" is allowed as the end of the day.
+ */
+export function parseClockTime(value: string | undefined): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() ?? '');
+  if (!match || Number(match[2]) > 59) {
+    return undefined;
+  }
+
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : undefined;
+}
+
+/**
+ * Format minutes after midnight as "HH:MM".
+ */
+export function formatClockTime(minutes: number): string {
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
@@ -0,0 +1,94 @@
+/**
+ * Bounded "heavy hitters" counter (the Space-Saving algorithm) for keeping
+ * the largest totals of a stream with too many distinct keys to count
+ * exactly, such as trips per destination in an origin-destination file.
+ *
+ * At most `capacity` keys are tracked. A new key arriving when full replaces
+ * the smallest one and inherits its count, recorded as the new key's
+ * possible overcount. Every reported count is at most `overcount` above the
+ * true total, and any key whose true total exceeds 1/capacity of all weight
+ * added is guaranteed to be tracked, however late in the stream it appears.
+ */
+
+export interface TopCount {
+  key: string;
+  count: number;
+  /** How much of `count` may belong to keys this one replaced. */
+  overcount: number;
+}
+
+export interface TopCounter {
+  add(key: string, weight: number): void;
+  /** The `limit` largest counts, largest first. */
+  top(limit: number): TopCount[];
+}
+
+export function createTopCounter(capacity: number): TopCounter {
+  // Min-heap on count, with each key's heap position for in-place updates
+  const heap: TopCount[] = [];
+  const positions = new Map<string, number>();
+
+  const swap = (i: number, j: number) => {
+    [heap[i], heap[j]] = [heap[j], heap[i]];
+    positions.set(heap[i].key, i);
+    positions.set(heap[j].key, j);
+  };
+
+  const siftUp = (index: number) => {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (heap[parent].count <= heap[index].count) {
+        return;
+      }
+      swap(index, parent);
+      index = parent;
+    }
+  };
+
+  const siftDown = (index: number) => {
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < heap.length && heap[left].count < heap[smallest].count) {
+        smallest = left;
+      }
+      if (right < heap.length && heap[right].count < heap[smallest].count) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        return;
+      }
+      swap(index, smallest);
+      index = smallest;
+    }
+  };
+
+  return {
+    add(key, weight) {
+      const position = positions.get(key);
+      if (position !== undefined) {
+        heap[position].count += weight;
+        siftDown(position);
+        return;
+      }
+
+      if (heap.length < capacity) {
+        heap.push({ key, count: weight, overcount: 0 });
+        positions.set(key, heap.length - 1);
+        siftUp(heap.length - 1);
+        return;
+      }
+
+      const smallest = heap[0];
+      positions.delete(smallest.key);
+      heap[0] = { key, count: smallest.count + weight, overcount: smallest.count };
+      positions.set(key, 0);
+      siftDown(0);
+    },
+
+    top(limit) {
+      return [...heap].sort((a, b) => b.count - a.count).slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Minimal ZIP reader for the single-file archives DataMall serves (passenger
+ * volume CSVs), read from a file on disk. Reads the central directory to find
+ * an entry and returns a stream of its uncompressed contents, so large CSVs
+ * can be processed line by line without holding the archive or the text in
+ * memory. Only "stored" and "deflate" entries are supported; ZIP64 archives
+ * are not.
+ */
+
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+import zlib from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const LOCAL_HEADER_SIZE = 30;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+async function readAt(file: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+function findEndOfCentralDirectory(tail: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KiB, at the very end
+  for (let offset = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= 0; offset--) {
+    if (tail.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+
+  throw new Error('Not a ZIP archive');
+}
+
+/**
+ * List the entries of an archive file from its central directory. Only the
+ * end of the file and the directory itself are read.
+ */
+export async function listZipEntries(archivePath: string): Promise<ZipEntry[]> {
+  const file = await fs.open(archivePath, 'r');
+  try {
+    const { size } = await file.stat();
+    const tailLength = Math.min(size, END_OF_CENTRAL_DIRECTORY_SIZE + 0xffff);
+    const tail = await readAt(file, size - tailLength, tailLength);
+    const end = findEndOfCentralDirectory(tail);
+    const entryCount = tail.readUInt16LE(end + 10);
+    const directory = await readAt(file, tail.readUInt32LE(end + 16), tail.readUInt32LE(end + 12));
+
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+        throw new Error('Corrupt ZIP central directory');
+      }
+
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      entries.push({
+        method: directory.readUInt16LE(offset + 10),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        localHeaderOffset: directory.readUInt32LE(offset + 42),
+        name: directory.toString('utf8', offset + 46, offset + 46 + nameLength),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Stream the uncompressed contents of one entry from an archive file.
+ */
+export async function openZipEntry(archivePath: string, entry: ZipEntry): Promise<Readable> {
+  const file = await fs.open(archivePath, 'r');
+  let header: Buffer;
+  try {
+    header = await readAt(file, entry.localHeaderOffset, LOCAL_HEADER_SIZE);
+  } finally {
+    await file.close();
+  }
+  if (header.length < LOCAL_HEADER_SIZE || header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP entry ${entry.name}`);
+  }
+
+  const dataStart = entry.localHeaderOffset + LOCAL_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+  const data = entry.compressedSize > 0
+    ? createReadStream(archivePath, { start: dataStart, end: dataStart + entry.compressedSize - 1 })
+    : Readable.from([]);
+
+  if (entry.method === METHOD_STORED) {
+    return data;
+  }
+  if (entry.method === METHOD_DEFLATE) {
+    return data.pipe(zlib.createInflateRaw());
+  }
+
+  data.destroy();
+  throw new Error(`Unsupported ZIP compression method ${entry.method} for ${entry.name}`);
+}
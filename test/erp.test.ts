@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { mock, test } from 'node:test';
+import axios from 'axios';
+import { getErpCharge } from '../src/erp.js';
+
+// ERPRates rows as DataMall documents them: no gantry location field
+const RATES = [
+  { VehicleType: 'Passenger Cars/Light Goods Vehicles/Taxis', DayType: 'Weekdays', StartTime: '07:30', EndTime: '08:00', ZoneID: 'AY1', ChargeAmount: 1, EffectiveDate: '2024-01-01' },
+  { VehicleType: 'Passenger Cars/Light Goods Vehicles/Taxis', DayType: 'Weekdays', StartTime: '08:00', EndTime: '08:30', ZoneID: 'AY1', ChargeAmount: 2, EffectiveDate: '2024-01-01' },
+  { VehicleType: 'Passenger Cars/Light Goods Vehicles/Taxis', DayType: 'Weekdays', StartTime: '08:00', EndTime: '09:00', ZoneID: 'AYC', ChargeAmount: 1.5, EffectiveDate: '2024-01-01' },
+  { VehicleType: 'Passenger Cars/Light Goods Vehicles/Taxis', DayType: 'Weekdays', StartTime: '08:00', EndTime: '09:00', ZoneID: 'CT1', ChargeAmount: 3, EffectiveDate: '2024-01-01' },
+];
+
+mock.method(axios, 'get', async () => ({ data: { value: RATES } }));
+
+test('finds a gantry by exact zone ID', async () => {
+  const result = await getErpCharge({ gantry: 'ay1', dayType: 'weekday', time: '07:45' }, 'key');
+
+  assert.deepEqual(result.gantries, [{ zoneId: 'AY1', charge: '$1.00', period: '07:30-08:00' }]);
+});
+
+test('matches every zone starting with a partial zone ID', async () => {
+  const result = await getErpCharge({ gantry: 'AY', dayType: 'weekday', time: '08:15' }, 'key');
+
+  assert.deepEqual(result.gantries.map((gantry) => [gantry.zoneId, gantry.charge]), [['AY1', '$2.00'], ['AYC', '$1.50']]);
+});
+
+test('reports upcoming changes without a location', async () => {
+  const result = await getErpCharge({ mode: 'upcoming', dayType: 'weekday', time: '07:50', withinMinutes: 15 }, 'key');
+
+  assert.deepEqual(result.gantries.map((gantry) => [gantry.zoneId, 'location' in gantry]), [
+    ['AY1', false],
+    ['AYC', false],
+    ['CT1', false],
+  ]);
+});
+
+test('rejects a gantry that matches no zone', async () => {
+  await assert.rejects(getErpCharge({ gantry: 'Orchard', dayType: 'weekday' }, 'key'), /No ERP gantry matches "Orchard"/);
+});
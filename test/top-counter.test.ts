@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createTopCounter } from '../src/utils/top-counter.js';
+
+test('counts exactly while under capacity', () => {
+  const counter = createTopCounter(10);
+  for (const [key, weight] of [['A', 5], ['B', 2], ['A', 3], ['C', 7]] as const) {
+    counter.add(key, weight);
+  }
+
+  assert.deepEqual(counter.top(2), [
+    { key: 'A', count: 8, overcount: 0 },
+    { key: 'C', count: 7, overcount: 0 },
+  ]);
+});
+
+test('keeps a destination that only gets busy late in the file', () => {
+  // OD files are ordered by day type and hour, so every hour lists hundreds
+  // of quiet destinations; this one is only busy in the evening peak
+  const counter = createTopCounter(200);
+  let total = 0;
+  let evening = 0;
+  for (let hour = 0; hour < 24; hour++) {
+    if (hour >= 17) {
+      counter.add('EVENING', 60);
+      evening += 60;
+      total += 60;
+    }
+    for (let destination = 0; destination < 1000; destination++) {
+      const weight = 1 + (destination % 5);
+      counter.add(`D${destination}`, weight);
+      total += weight;
+    }
+  }
+
+  const [top] = counter.top(1);
+  assert.equal(top.key, 'EVENING');
+  assert.ok(top.count >= evening, 'never undercounts');
+  assert.ok(top.count - top.overcount <= evening, 'overcount covers the error');
+  assert.ok(top.overcount <= total / 200, 'error is within total / capacity');
+});
+
+test('reported counts bound the true totals', () => {
+  const counter = createTopCounter(3);
+  const truth = new Map<string, number>();
+  for (let i = 0; i < 500; i++) {
+    const key = `K${(i * 7) % 11}`;
+    const weight = 1 + (i % 4);
+    counter.add(key, weight);
+    truth.set(key, (truth.get(key) ?? 0) + weight);
+  }
+
+  for (const { key, count, overcount } of counter.top(3)) {
+    const actual = truth.get(key) ?? 0;
+    assert.ok(count >= actual && count - overcount <= actual, key);
+  }
+});